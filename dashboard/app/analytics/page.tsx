@@ -0,0 +1,31 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { Analytics } from '@/components/Analytics';
+import { UserMenu } from '@/components/UserMenu';
+import { getCurrentUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AnalyticsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/analytics');
+  }
+
+  return (
+    <main className="container mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-baseline gap-4">
+          <h1 className="text-2xl font-bold">Analytics</h1>
+          <Link href="/" className="text-sm text-blue-400 hover:underline">Back to calls</Link>
+        </div>
+        <UserMenu user={user} />
+      </div>
+      {/* Analytics reads its date range from the URL */}
+      <Suspense fallback={<div className="text-center py-4">Loading analytics...</div>}>
+        <Analytics />
+      </Suspense>
+    </main>
+  );
+}
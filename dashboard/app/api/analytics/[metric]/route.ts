@@ -0,0 +1,14 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// One aggregate per metric, e.g. /api/analytics/volume?createdFrom=2025-01-01
+export async function GET(request: NextRequest, { params }: { params: Promise<{ metric: string }> }) {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
+
+  const { metric } = await params;
+  return proxyToBunServer(request, `/analytics/${encodeURIComponent(metric)}`, 'Failed to fetch analytics', auth.user);
+}
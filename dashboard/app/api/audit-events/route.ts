@@ -0,0 +1,13 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Filters and ?format=csv are forwarded as-is in the query string
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('admin');
+  if ('response' in auth) return auth.response;
+
+  return proxyToBunServer(request, '/audit-events', 'Failed to fetch audit events', auth.user);
+}
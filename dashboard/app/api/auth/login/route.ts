@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { bunJson, errorResponse } from '@/lib/bunServer';
+import { setSessionCookie, type SessionResponse } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    const session = await bunJson<SessionResponse>('/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+
+    return setSessionCookie(NextResponse.json({ user: session.user }), session);
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign in');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, endSession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    await endSession(request.cookies.get(SESSION_COOKIE)?.value);
+  } catch (error) {
+    // The cookie is cleared either way; the session row expires on its own
+    console.warn('Warning: Failed to end session on the Bun server:', error);
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
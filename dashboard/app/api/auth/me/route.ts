@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
+
+  return NextResponse.json({ user: auth.user });
+}
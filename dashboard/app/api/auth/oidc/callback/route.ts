@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { bunJson } from '@/lib/bunServer';
+import { setSessionCookie, type SessionResponse } from '@/lib/auth';
+import {
+  OIDC_STATE_COOKIE,
+  OIDC_VERIFIER_COOKIE,
+  callbackUrl,
+  completeAuthorization,
+  isOidcEnabled
+} from '@/lib/oidc';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const loginUrl = new URL('/login', request.nextUrl.origin);
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const verifier = request.cookies.get(OIDC_VERIFIER_COOKIE)?.value;
+
+  if (!isOidcEnabled() || !code || !verifier || !state || state !== request.cookies.get(OIDC_STATE_COOKIE)?.value) {
+    loginUrl.searchParams.set('error', 'Single sign-on failed. Please try again.');
+    return NextResponse.redirect(loginUrl);
+  }
+
+  let response: NextResponse;
+  try {
+    const identity = await completeAuthorization(code, verifier, callbackUrl(request.nextUrl.origin));
+    const session = await bunJson<SessionResponse>('/auth/oidc', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(identity)
+    });
+    response = setSessionCookie(NextResponse.redirect(new URL('/', request.nextUrl.origin)), session);
+  } catch (error) {
+    console.error('Error completing OIDC login:', error);
+    loginUrl.searchParams.set('error', 'Single sign-on failed. Please try again.');
+    response = NextResponse.redirect(loginUrl);
+  }
+
+  response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' });
+  response.cookies.delete({ name: OIDC_VERIFIER_COOKIE, path: '/api/auth/oidc' });
+  return response;
+}
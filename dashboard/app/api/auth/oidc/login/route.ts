@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { errorResponse } from '@/lib/bunServer';
+import {
+  OIDC_STATE_COOKIE,
+  OIDC_VERIFIER_COOKIE,
+  callbackUrl,
+  createAuthorizationRequest,
+  isOidcEnabled
+} from '@/lib/oidc';
+
+export const dynamic = 'force-dynamic';
+
+const FLOW_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/api/auth/oidc',
+  maxAge: 10 * 60
+};
+
+export async function GET(request: NextRequest) {
+  if (!isOidcEnabled()) {
+    return NextResponse.json({ error: 'Not found', details: 'OIDC login is not configured' }, { status: 404 });
+  }
+
+  try {
+    const { url, state, verifier } = await createAuthorizationRequest(callbackUrl(request.nextUrl.origin));
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, state, FLOW_COOKIE_OPTIONS);
+    response.cookies.set(OIDC_VERIFIER_COOKIE, verifier, FLOW_COOKIE_OPTIONS);
+    return response;
+  } catch (error) {
+    console.error('Error starting OIDC login:', error);
+    return errorResponse(error, 'Failed to start OIDC login');
+  }
+}
@@ -0,0 +1,15 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// ?variant=redacted|raw, ?track=mixed|customer|assistant and ?download=1 are forwarded, as is the Range header
+// so the audio element can seek. The Bun server checks the role per variant.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
+
+  const { id } = await params;
+  return proxyToBunServer(request, `/calls/${encodeURIComponent(id)}/audio`, 'Failed to fetch audio', auth.user);
+}
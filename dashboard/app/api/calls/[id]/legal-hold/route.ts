@@ -0,0 +1,24 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Body: { reason }. The Bun server records who set the hold and when.
+export async function PUT(request: NextRequest, { params }: Params) {
+  const auth = await requireRole('admin');
+  if ('response' in auth) return auth.response;
+
+  const { id } = await params;
+  return proxyToBunServer(request, `/calls/${encodeURIComponent(id)}/legal-hold`, 'Failed to set legal hold', auth.user);
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireRole('admin');
+  if ('response' in auth) return auth.response;
+
+  const { id } = await params;
+  return proxyToBunServer(request, `/calls/${encodeURIComponent(id)}/legal-hold`, 'Failed to release legal hold', auth.user);
+}
@@ -0,0 +1,14 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// The Bun server records each read in the audit log
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole('reviewer');
+  if ('response' in auth) return auth.response;
+
+  const { id } = await params;
+  return proxyToBunServer(request, `/calls/${encodeURIComponent(id)}/phone-numbers`, 'Failed to fetch phone numbers', auth.user);
+}
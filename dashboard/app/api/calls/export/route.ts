@@ -0,0 +1,13 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// ?format=csv|json plus the call list's own query; the Bun server audits the export
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
+
+  return proxyToBunServer(request, '/calls/export', 'Failed to export calls', auth.user);
+}
@@ -1,28 +1,13 @@
-import { NextResponse } from 'next/server';
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
 
-const BUN_SERVER = process.env.BUN_SERVER || 'http://localhost:3002';
+export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  try {
-    const response = await fetch(`${BUN_SERVER}/calls`);
+// Pagination, search and filters are forwarded as-is in the query string
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
 
-    if (!response.ok) {
-      throw new Error(`Server responded with ${response.status}`);
-    }
-
-    const contentType = response.headers.get('content-type');
-    if (!contentType?.includes('application/json')) {
-      throw new Error(`Expected JSON but got ${contentType}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error fetching calls:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    return NextResponse.json(
-      { error: 'Failed to fetch calls', details: errorMessage },
-      { status: 500 }
-    );
-  }
+  return proxyToBunServer(request, '/calls', 'Failed to fetch calls', auth.user);
 }
@@ -0,0 +1,13 @@
+import { type NextRequest } from 'next/server';
+import { proxyToBunServer } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Dry run: lists what the retention scheduler would delete, without deleting it
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('admin');
+  if ('response' in auth) return auth.response;
+
+  return proxyToBunServer(request, '/retention/report', 'Failed to build retention report', auth.user);
+}
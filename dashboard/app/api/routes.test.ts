@@ -0,0 +1,170 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { NextRequest } from "next/server";
+
+interface StubRequest {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+const USERS: Record<string, { id: number; username: string; role: string }> = {
+  'viewer-session': { id: 1, username: 'vera', role: 'viewer' },
+  'admin-session': { id: 2, username: 'ada', role: 'admin' }
+};
+
+let requests: StubRequest[] = [];
+
+// Stands in for the Bun server: sessions resolve from USERS, a few paths fail
+// on purpose and everything else echoes what it received
+const bunServer = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const { pathname, search } = new URL(req.url);
+    const body = await req.text();
+
+    if (pathname === '/auth/session') {
+      const user = USERS[req.headers.get('x-session-token') ?? ''];
+      return user
+        ? Response.json({ user })
+        : Response.json({ error: 'Unauthorized', details: 'Session expired or invalid' }, { status: 401 });
+    }
+
+    requests.push({ method: req.method, path: pathname + search, headers: req.headers, body });
+
+    if (pathname === '/calls/held') {
+      return Response.json({ error: 'Call is under legal hold', details: 'Held by ada' }, { status: 409 });
+    }
+    if (pathname === '/calls/broken/audio') {
+      return new Response('Twilio is down', { status: 502 });
+    }
+    if (pathname.endsWith('/audio')) {
+      return new Response('RIFF', {
+        status: 206,
+        headers: {
+          'Content-Type': 'audio/wav',
+          'Content-Range': 'bytes 0-3/100',
+          'Accept-Ranges': 'bytes',
+          'X-Internal': 'not forwarded'
+        }
+      });
+    }
+    return Response.json({ method: req.method, path: pathname + search, body });
+  }
+});
+
+let sessionToken: string | undefined;
+
+// Route handlers read the session cookie through next/headers
+mock.module('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (name === 'dashboard_session' && sessionToken ? { value: sessionToken } : undefined)
+  })
+}));
+
+// lib/bunServer.ts reads BUN_SERVER when imported
+Bun.env.BUN_SERVER = bunServer.url.origin;
+const calls = await import('./calls/route');
+const call = await import('./calls/[id]/route');
+const legalHold = await import('./calls/[id]/legal-hold/route');
+const audio = await import('./calls/[id]/audio/route');
+
+afterAll(() => {
+  bunServer.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  sessionToken = 'admin-session';
+});
+
+const dashboardRequest = (path: string, init?: ConstructorParameters<typeof NextRequest>[1]) =>
+  new NextRequest(`http://localhost:3901${path}`, init);
+
+const idParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('dashboard API routes', () => {
+  test('forward the query string for pagination and search', async () => {
+    const response = await calls.GET(dashboardRequest('/api/calls?page=2&limit=20&search=refund'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ method: 'GET', path: '/calls?page=2&limit=20&search=refund' });
+  });
+
+  test('identify the service and the signed-in user to the Bun server', async () => {
+    sessionToken = 'viewer-session';
+    await calls.GET(dashboardRequest('/api/calls'));
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers.get('authorization')).toBe('Bearer test-service-token');
+    expect(requests[0].headers.get('x-dashboard-user')).toBe('vera');
+    expect(requests[0].headers.get('x-dashboard-role')).toBe('viewer');
+  });
+
+  test('forward the method and body', async () => {
+    const response = await legalHold.PUT(dashboardRequest('/api/calls/GT1/legal-hold', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: 'Dispute 42' })
+    }), idParams('GT1'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      method: 'PUT',
+      path: '/calls/GT1/legal-hold',
+      body: JSON.stringify({ reason: 'Dispute 42' })
+    });
+    expect(requests[0].headers.get('content-type')).toBe('application/json');
+  });
+
+  test('encode call IDs in the Bun server path', async () => {
+    await legalHold.DELETE(dashboardRequest('/api/calls/a%2Fb/legal-hold', { method: 'DELETE' }), idParams('a/b'));
+
+    expect(requests[0]).toMatchObject({ method: 'DELETE', path: '/calls/a%2Fb/legal-hold' });
+  });
+
+  test('forward the Range header and the audio response headers', async () => {
+    const response = await audio.GET(dashboardRequest('/api/calls/GT1/audio?variant=raw', {
+      headers: { Range: 'bytes=0-3' }
+    }), idParams('GT1'));
+
+    expect(requests[0].path).toBe('/calls/GT1/audio?variant=raw');
+    expect(requests[0].headers.get('range')).toBe('bytes=0-3');
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-type')).toBe('audio/wav');
+    expect(response.headers.get('content-range')).toBe('bytes 0-3/100');
+    expect(response.headers.get('x-internal')).toBeNull();
+    expect(await response.text()).toBe('RIFF');
+  });
+
+  test('pass on the Bun server error and status', async () => {
+    const response = await call.DELETE(dashboardRequest('/api/calls/held', { method: 'DELETE' }), idParams('held'));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: 'Call is under legal hold', details: 'Held by ada' });
+  });
+
+  test('wrap errors without a JSON body', async () => {
+    const response = await audio.GET(dashboardRequest('/api/calls/broken/audio'), idParams('broken'));
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Bun server responded with 502', details: 'Twilio is down' });
+  });
+
+  test('reject requests without a session before calling the Bun server', async () => {
+    sessionToken = undefined;
+    const response = await calls.GET(dashboardRequest('/api/calls'));
+
+    expect(response.status).toBe(401);
+    expect(requests).toEqual([]);
+  });
+
+  test('reject users without the required role', async () => {
+    sessionToken = 'viewer-session';
+    const response = await call.DELETE(dashboardRequest('/api/calls/GT1', { method: 'DELETE' }), idParams('GT1'));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Forbidden', details: 'This action requires the admin role' });
+    expect(requests).toEqual([]);
+  });
+});
@@ -1,15 +1,17 @@
 import { NextRequest } from 'next/server';
-
-const BUN_SERVER = process.env.BUN_SERVER || 'http://localhost:3902';
+import { BUN_SERVER, serviceHeaders } from '@/lib/bunServer';
+import { requireRole } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole('viewer');
+  if ('response' in auth) return auth.response;
+
   const bunServerUrl = new URL('/ws', BUN_SERVER);
   bunServerUrl.protocol = bunServerUrl.protocol.replace('http', 'ws');
 
   console.log('WebSocket proxy: Forwarding to', bunServerUrl.toString());
-  console.log('WebSocket proxy: Headers:', Object.fromEntries(req.headers));
 
   if (!req.headers.get('upgrade')?.toLowerCase().includes('websocket')) {
     console.log('WebSocket proxy: Missing upgrade header');
@@ -28,6 +30,7 @@ export async function GET(req: NextRequest) {
     const response = await fetch(bunServerUrl.toString(), {
       method: 'GET',
       headers: {
+        ...serviceHeaders(auth.user),
         'Upgrade': 'websocket',
         'Connection': 'Upgrade',
         'Sec-WebSocket-Key': wsKey,
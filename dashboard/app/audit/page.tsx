@@ -0,0 +1,35 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { AuditLog } from '@/components/AuditLog';
+import { UserMenu } from '@/components/UserMenu';
+import { getCurrentUser } from '@/lib/auth';
+import { hasRole } from '@/lib/roles';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AuditPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/audit');
+  }
+  if (!hasRole(user, 'admin')) {
+    redirect('/');
+  }
+
+  return (
+    <main className="container mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-baseline gap-4">
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <Link href="/" className="text-sm text-blue-400 hover:underline">Back to calls</Link>
+        </div>
+        <UserMenu user={user} />
+      </div>
+      {/* AuditLog reads its filters from the URL */}
+      <Suspense fallback={<div className="text-center py-4">Loading audit log...</div>}>
+        <AuditLog />
+      </Suspense>
+    </main>
+  );
+}
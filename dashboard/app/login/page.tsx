@@ -0,0 +1,19 @@
+import { Suspense } from 'react';
+import { LoginForm } from '@/components/LoginForm';
+import { isOidcEnabled } from '@/lib/oidc';
+
+export const dynamic = 'force-dynamic';
+
+export default function LoginPage() {
+  return (
+    <main className="container mx-auto p-4 flex justify-center">
+      <div className="w-full max-w-sm mt-24 p-6 bg-gray-800 border border-gray-700 rounded-lg shadow-sm">
+        <h1 className="text-2xl font-bold mb-6">Sign in</h1>
+        {/* LoginForm reads the redirect target and OIDC errors from the URL */}
+        <Suspense>
+          <LoginForm oidcEnabled={isOidcEnabled()} />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
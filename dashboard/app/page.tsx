@@ -1,10 +1,35 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
 import { CallList } from '@/components/CallList';
+import { UserMenu } from '@/components/UserMenu';
+import { getCurrentUser } from '@/lib/auth';
+import { hasRole } from '@/lib/roles';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Home() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
 
-export default function Home() {
   return (
     <main className="container mx-auto p-4">
-      <h1 className="text-2xl font-bold mb-6">Call Recordings</h1>
-      <CallList />
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-baseline gap-4">
+          <h1 className="text-2xl font-bold">Call Recordings</h1>
+          <Link href="/analytics" className="text-sm text-blue-400 hover:underline">Analytics</Link>
+          {hasRole(user, 'admin') && (
+            <Link href="/audit" className="text-sm text-blue-400 hover:underline">Audit log</Link>
+          )}
+        </div>
+        <UserMenu user={user} />
+      </div>
+      {/* CallList reads its search and filters from the URL */}
+      <Suspense fallback={<div className="text-center py-4">Loading calls...</div>}>
+        <CallList user={user} />
+      </Suspense>
     </main>
   );
 }
@@ -0,0 +1,299 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+interface AnalyticsRange {
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+interface AnalyticsData {
+  volume: {
+    byDay: { day: string; calls: number }[];
+    byHour: { hour: number; calls: number }[];
+  };
+  durations: { calls: number; average: number | null; p95: number | null };
+  'talk-ratio': { calls: number; customerSeconds: number; assistantSeconds: number };
+  destinations: { number: string; calls: number }[];
+  transcription: { saved: number; failed: number; pending: number; failureRate: number | null };
+  dropped: { ended: number; dropped: number; byStatus: { status: string; calls: number }[] };
+}
+
+const METRICS: (keyof AnalyticsData)[] = ['volume', 'durations', 'talk-ratio', 'destinations', 'transcription', 'dropped'];
+const RANGE_KEYS: (keyof AnalyticsRange)[] = ['createdFrom', 'createdTo'];
+
+const PRESETS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 }
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  busy: 'Busy',
+  'no-answer': 'No answer',
+  failed: 'Failed',
+  canceled: 'Canceled'
+};
+
+const inputClassName = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-100 placeholder-gray-500';
+
+function formatSeconds(seconds: number | null) {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${Math.round(seconds)} sec`;
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.round(seconds % 60);
+  return remainingSeconds > 0 ? `${minutes} min ${remainingSeconds} sec` : `${minutes} min`;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function Card({ title, children, className = '' }: { title: string; children: React.ReactNode; className?: string }) {
+  return (
+    <div className={`p-4 bg-gray-800 border border-gray-700 rounded-lg ${className}`}>
+      <h2 className="text-sm font-medium text-gray-400 mb-3">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function Stat({ title, value, detail }: { title: string; value: string; detail?: string }) {
+  return (
+    <Card title={title}>
+      <p className="text-2xl font-semibold text-gray-100">{value}</p>
+      {detail && <p className="text-sm text-gray-500 mt-1">{detail}</p>}
+    </Card>
+  );
+}
+
+function BarChart({ bars }: { bars: { label: string; value: number }[] }) {
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {bars.map(bar => (
+          <div
+            key={bar.label}
+            className="flex-1 bg-blue-500/70 hover:bg-blue-400 rounded-t-sm min-h-px"
+            style={{ height: `${(bar.value / max) * 100}%` }}
+            title={`${bar.label}: ${bar.value} call${bar.value === 1 ? '' : 's'}`}
+          />
+        ))}
+      </div>
+      {bars.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{bars[0].label}</span>
+          <span>{bars[bars.length - 1].label}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Analytics() {
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The date range lives in the URL, like the call list filters
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+
+  const range = useMemo(() => {
+    const params = new URLSearchParams(queryString);
+    return Object.fromEntries(
+      RANGE_KEYS.filter(key => params.get(key)).map(key => [key, params.get(key)!])
+    ) as AnalyticsRange;
+  }, [queryString]);
+
+  const [draft, setDraft] = useState<AnalyticsRange>(range);
+
+  useEffect(() => {
+    setDraft(range);
+  }, [range]);
+
+  const applyRange = useCallback((value: AnalyticsRange) => {
+    const params = new URLSearchParams();
+    RANGE_KEYS.forEach(key => {
+      if (value[key]) params.set(key, value[key]);
+    });
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname]);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      try {
+        const entries = await Promise.all(METRICS.map(async metric => {
+          const response = await fetch(`/api/analytics/${metric}?${queryString}`);
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.details || 'Failed to fetch analytics');
+          }
+          return [metric, await response.json()];
+        }));
+        setData(Object.fromEntries(entries));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [queryString]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyRange(draft);
+  };
+
+  const applyPreset = (days: number) => {
+    const today = new Date();
+    const from = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    applyRange({ createdFrom: from.toISOString().slice(0, 10), createdTo: today.toISOString().slice(0, 10) });
+  };
+
+  const talk = data?.['talk-ratio'];
+  const talkTotal = talk ? talk.customerSeconds + talk.assistantSeconds : 0;
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleApply} className="flex flex-wrap items-end gap-3 p-4 bg-gray-800 border border-gray-700 rounded-lg">
+        {RANGE_KEYS.map(key => (
+          <label key={key} className="block text-sm text-gray-400">
+            {key === 'createdFrom' ? 'From date' : 'To date'}
+            <input
+              type="date"
+              value={draft[key] ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+        ))}
+        <button type="submit" className="px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700">
+          Apply
+        </button>
+        <div className="flex gap-2 ml-auto">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.days}
+              type="button"
+              onClick={() => applyPreset(preset.days)}
+              className="px-3 py-1.5 border border-gray-700 rounded bg-gray-800 text-sm text-gray-200 hover:bg-gray-700"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => applyRange({})}
+            className="px-3 py-1.5 border border-gray-700 rounded bg-gray-800 text-sm text-gray-200 hover:bg-gray-700"
+          >
+            All time
+          </button>
+        </div>
+      </form>
+
+      <p className="text-xs text-gray-500">Dates and hours are UTC.</p>
+
+      {error && <div className="text-center py-4 text-red-500">Error: {error}</div>}
+
+      {loading && !data ? (
+        <div className="text-center py-4">Loading analytics...</div>
+      ) : data && (
+        <div className={`space-y-4 ${loading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <Stat title="Calls" value={data.durations.calls.toString()} />
+            <Stat title="Average duration" value={formatSeconds(data.durations.average)} />
+            <Stat title="p95 duration" value={formatSeconds(data.durations.p95)} />
+            <Stat
+              title="Transcription failure rate"
+              value={formatPercent(data.transcription.failureRate)}
+              detail={`${data.transcription.failed} failed, ${data.transcription.saved} saved${data.transcription.pending ? `, ${data.transcription.pending} pending` : ''}`}
+            />
+            <Stat
+              title="Dropped calls"
+              value={data.dropped.dropped.toString()}
+              detail={data.dropped.ended > 0
+                ? `${formatPercent(data.dropped.dropped / data.dropped.ended)} of ${data.dropped.ended} ended calls`
+                : undefined}
+            />
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            <Card title="Calls per day">
+              {data.volume.byDay.length > 0
+                ? <BarChart bars={data.volume.byDay.map(row => ({ label: row.day, value: row.calls }))} />
+                : <p className="text-sm text-gray-500">No calls</p>}
+            </Card>
+            <Card title="Calls by hour of day">
+              <BarChart bars={data.volume.byHour.map(row => ({ label: `${row.hour}:00`, value: row.calls }))} />
+            </Card>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-4">
+            <Card title="Talk ratio">
+              {talk && talkTotal > 0 ? (
+                <>
+                  <div className="flex h-4 rounded overflow-hidden">
+                    <div className="bg-blue-500" style={{ width: `${(talk.customerSeconds / talkTotal) * 100}%` }} />
+                    <div className="bg-gray-500" style={{ width: `${(talk.assistantSeconds / talkTotal) * 100}%` }} />
+                  </div>
+                  <div className="flex justify-between text-sm text-gray-300 mt-2">
+                    <span>👤 {formatPercent(talk.customerSeconds / talkTotal)} ({formatSeconds(talk.customerSeconds)})</span>
+                    <span>🤖 {formatPercent(talk.assistantSeconds / talkTotal)} ({formatSeconds(talk.assistantSeconds)})</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Over {talk.calls} call{talk.calls === 1 ? '' : 's'} with transcript timings</p>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">No transcripts with timings</p>
+              )}
+            </Card>
+
+            <Card title="Top destination numbers">
+              {data.destinations.length > 0 ? (
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-700">
+                    {data.destinations.map((row, i) => (
+                      <tr key={i} className="text-gray-200">
+                        <td className="py-1">{row.number}</td>
+                        <td className="py-1 text-right">{row.calls}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500">No calls</p>
+              )}
+            </Card>
+
+            <Card title="Dropped calls by status">
+              {data.dropped.byStatus.length > 0 ? (
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-700">
+                    {data.dropped.byStatus.map(row => (
+                      <tr key={row.status} className="text-gray-200">
+                        <td className="py-1">{STATUS_LABELS[row.status] ?? row.status}</td>
+                        <td className="py-1 text-right">{row.calls}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500">No dropped calls</p>
+              )}
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
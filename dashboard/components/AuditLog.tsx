@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Pagination } from './Pagination';
+
+interface AuditEvent {
+  id: number;
+  createdAt: string;
+  username: string;
+  role: string;
+  action: string;
+  callId: string;
+  details: Record<string, unknown> | null;
+}
+
+interface AuditFilters {
+  username?: string;
+  callId?: string;
+  action?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+const AUDIT_FILTER_KEYS: (keyof AuditFilters)[] = ['username', 'callId', 'action', 'createdFrom', 'createdTo'];
+
+const ACTION_LABELS: Record<string, string> = {
+  view_transcript: 'Viewed transcript',
+  play_audio: 'Played audio',
+  download_audio: 'Downloaded audio',
+  export: 'Exported',
+  delete: 'Deleted',
+  purge_recording: 'Purged raw recording',
+  set_legal_hold: 'Placed legal hold',
+  release_legal_hold: 'Released legal hold',
+  reveal_pii: 'Revealed redacted PII'
+};
+
+const inputClassName = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-100 placeholder-gray-500';
+
+export function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters and page live in the URL, like the call list
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+
+  const filters = useMemo(() => {
+    const params = new URLSearchParams(queryString);
+    return Object.fromEntries(
+      AUDIT_FILTER_KEYS.filter(key => params.get(key)).map(key => [key, params.get(key)!])
+    ) as AuditFilters;
+  }, [queryString]);
+
+  const [draft, setDraft] = useState<AuditFilters>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const updateQuery = useCallback((updates: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(queryString);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, queryString]);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const params = new URLSearchParams(queryString);
+        params.set('limit', '50');
+
+        const response = await fetch(`/api/audit-events?${params}`);
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.details || 'Failed to fetch audit events');
+        }
+        const data = await response.json();
+        setEvents(data.events);
+        setTotalPages(data.pagination.pages);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch audit events');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [queryString]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({
+      ...Object.fromEntries(AUDIT_FILTER_KEYS.map(key => [key, draft[key]])),
+      page: undefined
+    });
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    updateQuery({
+      ...Object.fromEntries(AUDIT_FILTER_KEYS.map(key => [key, undefined])),
+      page: undefined
+    });
+  };
+
+  const csvParams = new URLSearchParams(queryString);
+  csvParams.delete('page');
+  csvParams.set('format', 'csv');
+
+  const field = (key: keyof AuditFilters, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="block text-sm text-gray-400">
+      {label}
+      <input
+        {...props}
+        value={draft[key] ?? ''}
+        onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+        className={`mt-1 ${inputClassName}`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleApply} className="p-4 bg-gray-800 border border-gray-700 rounded-lg space-y-3">
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+          {field('username', 'User')}
+          {field('callId', 'Call ID')}
+          <label className="block text-sm text-gray-400">
+            Action
+            <select
+              value={draft.action ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, action: e.target.value || undefined }))}
+              className={`mt-1 ${inputClassName}`}
+            >
+              <option value="">Any</option>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          {field('createdFrom', 'From date', { type: 'date' })}
+          {field('createdTo', 'To date', { type: 'date' })}
+        </div>
+        <div className="flex justify-between gap-2">
+          <a
+            href={`/api/audit-events?${csvParams}`}
+            className="flex items-center gap-2 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export CSV
+          </a>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-3 py-1 border border-gray-700 rounded bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {error && <div className="text-center py-4 text-red-500">Error: {error}</div>}
+
+      {loading ? (
+        <div className="text-center py-4">Loading audit log...</div>
+      ) : !events.length ? (
+        <div className="text-center py-8 text-gray-500">No audit events found</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800 text-gray-400 text-left">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Time</th>
+                  <th className="px-4 py-2 font-medium">User</th>
+                  <th className="px-4 py-2 font-medium">Action</th>
+                  <th className="px-4 py-2 font-medium">Call</th>
+                  <th className="px-4 py-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {events.map(event => (
+                  <tr key={event.id} className="text-gray-200">
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {new Date(`${event.createdAt.replace(' ', 'T')}Z`).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2">
+                      {event.username} <span className="text-gray-500">({event.role})</span>
+                    </td>
+                    <td className="px-4 py-2">{ACTION_LABELS[event.action] ?? event.action}</td>
+                    <td className="px-4 py-2">
+                      <button
+                        onClick={() => updateQuery({ callId: event.callId, page: undefined })}
+                        className="text-blue-400 hover:underline"
+                        title="Show events for this call"
+                      >
+                        {event.callId}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2 text-gray-400">
+                      {event.details ? JSON.stringify(event.details) : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={(page) => updateQuery({ page: page > 1 ? page.toString() : undefined })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,61 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { CallRecord } from './CallRecord';
 import { SearchBar } from './SearchBar';
+import { FilterPanel, FILTER_KEYS, type CallFilters } from './FilterPanel';
+import { SortMenu } from './SortMenu';
 import { Pagination } from './Pagination';
 import { Export } from './Export';
+import { LiveCall, type LiveCallState } from './LiveCall';
+import { hasRole, type DashboardUser } from '@/lib/roles';
 
 interface Call {
   id: string;
+  callSid?: string;
   from: string;
   to: string;
   from_number: string;
   to_number: string;
   duration: string;
-  recordingUrl: string;
-  piiUrl: string;
   createdAt: string;
-  transcript: {
+  highlights?: {
     speaker: 'customer' | 'assistant';
-    text: string;
+    parts: { text: string; match: boolean }[];
   }[];
+  legalHold?: {
+    by: string;
+    reason: string;
+    at: string;
+  };
+  archive?: Partial<Record<'redacted' | 'raw', {
+    key: string;
+    size: number;
+    sha256: string;
+    archivedAt: string;
+    twilioDeletedAt?: string;
+  }>>;
+  voiceflow?: {
+    projectId: string;
+    userId?: string;
+  };
+  metrics?: {
+    customerTalkTime: number;
+    assistantTalkTime: number;
+    longestSilence: number;
+    overlaps: number;
+    responseLatency?: number;
+    turns: number;
+  };
+  insights?: {
+    sentiment?: string;
+    sentimentScore?: number;
+    summary?: string;
+    topics: string[];
+    entities: { type: string; value: string }[];
+    classifiers: { name: string; label: string; probability?: number }[];
+  };
 }
 
 interface PaginationData {
@@ -29,11 +65,15 @@ interface PaginationData {
   limit: number;
 }
 
-export function CallList() {
+interface CallListProps {
+  user: DashboardUser;
+}
+
+export function CallList({ user }: CallListProps) {
   const [calls, setCalls] = useState<Call[]>([]);
+  const [liveCalls, setLiveCalls] = useState<LiveCallState[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [search, setSearch] = useState('');
   const [pagination, setPagination] = useState<PaginationData>({
     total: 0,
     pages: 1,
@@ -43,19 +83,52 @@ export function CallList() {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
 
-  const fetchCalls = useCallback(async (page: number, search: string) => {
+  // Search, filters and page live in the URL so filtered views can be shared
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const search = searchParams.get('search') ?? '';
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const sort = {
+    sort: searchParams.get('sort') ?? undefined,
+    order: searchParams.get('order') ?? undefined
+  };
+
+  const filters = useMemo(() => {
+    const params = new URLSearchParams(queryString);
+    return Object.fromEntries(
+      FILTER_KEYS.filter(key => params.get(key)).map(key => [key, params.get(key)!])
+    ) as CallFilters;
+  }, [queryString]);
+
+  const updateQuery = useCallback((updates: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(queryString);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, queryString]);
+
+  const fetchCalls = useCallback(async (query: string) => {
     try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: pagination.limit.toString(),
-        ...(search && { search })
-      });
+      const params = new URLSearchParams(query);
+      params.set('limit', pagination.limit.toString());
 
       const response = await fetch(`/api/calls?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch calls');
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.details || 'Failed to fetch calls');
+      }
       const data = await response.json();
       setCalls(data.calls);
       setPagination(data.pagination);
+      setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch calls');
     } finally {
@@ -110,6 +183,36 @@ export function CallList() {
               total: prev.total + 1,
               pages: Math.ceil((prev.total + 1) / prev.limit)
             }));
+            // The saved call replaces its in-progress card
+            setLiveCalls(prev => prev.filter(live => live.callSid !== data.call.callSid));
+          } else if (data.type === 'live_call') {
+            if (data.status === 'started') {
+              setLiveCalls(prev => prev.some(live => live.callSid === data.callSid) ? prev : [{
+                callSid: data.callSid,
+                from: data.from,
+                to: data.to,
+                startedAt: data.timestamp,
+                ended: false,
+                lines: [],
+                partials: {}
+              }, ...prev]);
+            } else {
+              setLiveCalls(prev => prev.map(live =>
+                live.callSid === data.callSid ? { ...live, ended: true, partials: {} } : live
+              ));
+            }
+          } else if (data.type === 'live_transcript') {
+            setLiveCalls(prev => prev.map(live => {
+              if (live.callSid !== data.callSid) return live;
+              if (!data.isFinal) {
+                return { ...live, partials: { ...live.partials, [data.speaker]: data.text } };
+              }
+              return {
+                ...live,
+                lines: [...live.lines, { speaker: data.speaker, text: data.text }],
+                partials: { ...live.partials, [data.speaker]: undefined }
+              };
+            }));
           }
         } catch (error) {
           console.error('Error processing WebSocket message:', error);
@@ -174,18 +277,24 @@ export function CallList() {
     };
   }, [setupWebSocket]);
 
-  // Fetch calls when page or search changes
+  // Fetch calls when page, search or filters change
   useEffect(() => {
-    fetchCalls(pagination.currentPage, search);
-  }, [pagination.currentPage, search, fetchCalls]);
+    fetchCalls(queryString);
+  }, [queryString, fetchCalls]);
 
   const handleSearch = (value: string) => {
-    setSearch(value);
-    setPagination(prev => ({ ...prev, currentPage: 1 }));
+    updateQuery({ search: value || undefined, page: undefined });
+  };
+
+  const handleFiltersChange = (value: CallFilters) => {
+    updateQuery({
+      ...Object.fromEntries(FILTER_KEYS.map(key => [key, value[key]])),
+      page: undefined
+    });
   };
 
   const handlePageChange = (page: number) => {
-    setPagination(prev => ({ ...prev, currentPage: page }));
+    updateQuery({ page: page > 1 ? page.toString() : undefined });
   };
 
   const handleDelete = async (id: string) => {
@@ -213,30 +322,80 @@ export function CallList() {
     }
   };
 
+  const handleLegalHoldChange = async (id: string, reason: string | null) => {
+    try {
+      const response = await fetch(`/api/calls/${id}/legal-hold`, reason === null
+        ? { method: 'DELETE' }
+        : {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ reason })
+          });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || 'Failed to update legal hold');
+      }
+
+      setCalls(prev => prev.map(call =>
+        call.id === id ? { ...call, legalHold: data.legalHold ?? undefined } : call
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update legal hold');
+      // Clear error after 5 seconds
+      setTimeout(() => setError(null), 5000);
+    }
+  };
+
   if (loading) return <div className="text-center py-4">Loading calls...</div>;
-  if (error) return <div className="text-center py-4 text-red-500">Error: {error}</div>;
+
+  const isFiltered = !!search || Object.keys(filters).length > 0;
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-between items-center">
-        <SearchBar value={search} onChange={handleSearch} />
-        {calls.length > 0 && <Export calls={calls} />}
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+          <SearchBar value={search} onChange={handleSearch} />
+          <FilterPanel value={filters} onChange={handleFiltersChange} />
+          <SortMenu value={sort} onChange={(value) => updateQuery({ ...value, page: undefined })} />
+        </div>
+        {calls.length > 0 && <Export query={queryString} limit={pagination.limit} />}
       </div>
 
+      {/* Keep the controls visible so an invalid filter can be fixed */}
+      {error && <div className="text-center py-4 text-red-500">Error: {error}</div>}
+
+      {liveCalls.length > 0 && (
+        <div className="space-y-4">
+          {liveCalls.map(live => (
+            <LiveCall key={live.callSid} call={live} />
+          ))}
+        </div>
+      )}
+
       {!calls.length ? (
         <div className="text-center py-8 text-gray-500">
-          {search ? 'No calls match your search' : 'No calls recorded yet'}
+          {isFiltered ? 'No calls match your search' : 'No calls recorded yet'}
         </div>
       ) : (
         <>
           <div className="space-y-4">
             {calls.map(call => (
-              <CallRecord key={call.id} call={call} onDelete={handleDelete} />
+              <CallRecord
+                key={call.id}
+                call={call}
+                canDelete={hasRole(user, 'admin')}
+                canPlayRaw={hasRole(user, 'reviewer')}
+                canRevealPii={hasRole(user, 'reviewer')}
+                canManageHold={hasRole(user, 'admin')}
+                onDelete={handleDelete}
+                onLegalHoldChange={handleLegalHoldChange}
+              />
             ))}
           </div>
 
           <Pagination
-            currentPage={pagination.currentPage}
+            currentPage={currentPage}
             totalPages={pagination.pages}
             onPageChange={handlePageChange}
           />
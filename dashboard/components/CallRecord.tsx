@@ -1,7 +1,10 @@
 'use client';
 
-import { useState } from 'react';
-import { ArrowDownTrayIcon, DocumentTextIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useRef, useState } from 'react';
+import { ArchiveBoxIcon, ArrowDownTrayIcon, DocumentTextIcon, EyeIcon, LockClosedIcon, ScaleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { ChannelControls } from './ChannelControls';
+import { VoiceflowTimeline } from './VoiceflowTimeline';
+import { Waveform } from './Waveform';
 
 interface CallRecordProps {
   call: {
@@ -9,19 +12,211 @@ interface CallRecordProps {
     from: string;
     to: string;
     duration: string;
-    recordingUrl: string;
-    piiUrl: string;
     createdAt: string;
-    transcript: {
+    highlights?: {
       speaker: 'customer' | 'assistant';
-      text: string;
+      parts: { text: string; match: boolean }[];
     }[];
+    legalHold?: {
+      by: string;
+      reason: string;
+      at: string;
+    };
+    archive?: Partial<Record<'redacted' | 'raw', {
+      key: string;
+      size: number;
+      sha256: string;
+      archivedAt: string;
+      twilioDeletedAt?: string;
+    }>>;
+    voiceflow?: {
+      projectId: string;
+      userId?: string;
+    };
+    metrics?: {
+      customerTalkTime: number;
+      assistantTalkTime: number;
+      longestSilence: number;
+      overlaps: number;
+      responseLatency?: number;
+      turns: number;
+    };
+    insights?: {
+      sentiment?: string;
+      sentimentScore?: number;
+      summary?: string;
+      topics: string[];
+      entities: { type: string; value: string }[];
+      classifiers: { name: string; label: string; probability?: number }[];
+    };
   };
 }
 
-export function CallRecord({ call, onDelete }: CallRecordProps & { onDelete: (id: string) => void }) {
+interface CallRecordActions {
+  canDelete: boolean;
+  canPlayRaw: boolean;
+  canManageHold: boolean;
+  canRevealPii: boolean;
+  onDelete: (id: string) => void;
+  // Pass a reason to place a hold, or null to release it
+  onLegalHoldChange: (id: string, reason: string | null) => Promise<void>;
+}
+
+interface TranscriptLine {
+  speaker: 'customer' | 'assistant';
+  text: string;
+  sentenceIndex?: number;
+  startTime?: number;
+  endTime?: number;
+  confidence?: number;
+}
+
+interface Redaction {
+  sentenceIndex: number;
+  entity: string;
+  position: number;
+  value: string;
+}
+
+const SENTIMENT_STYLES: Record<string, string> = {
+  positive: 'bg-green-900/60 text-green-300',
+  negative: 'bg-red-900/60 text-red-300',
+  mixed: 'bg-purple-900/60 text-purple-300'
+};
+
+// Tokens like [CREDIT_CARD] that the server put in place of PII
+const REDACTION_TOKEN = /\[[A-Z][A-Z0-9_]*\]/;
+
+// Splits a redacted line into text and the revealed originals of its tokens
+function revealText(text: string, redactions: Redaction[]) {
+  const parts: { text: string; revealed: boolean }[] = [];
+  let last = 0;
+
+  redactions.forEach(redaction => {
+    parts.push({ text: text.slice(last, redaction.position), revealed: false });
+    parts.push({ text: redaction.value, revealed: true });
+    last = redaction.position + redaction.entity.length + 2;
+  });
+  parts.push({ text: text.slice(last), revealed: false });
+
+  return parts;
+}
+
+export function CallRecord({ call, canDelete, canPlayRaw, canManageHold, canRevealPii, onDelete, onLegalHoldChange }: CallRecordProps & CallRecordActions) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [variant, setVariant] = useState<'redacted' | 'raw'>('redacted');
   const [isDeleting, setIsDeleting] = useState(false);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [transcript, setTranscript] = useState<TranscriptLine[] | null>(null);
+  const [transcriptError, setTranscriptError] = useState<string | null>(null);
+  const [redactions, setRedactions] = useState<Redaction[] | null>(null);
+  const [phoneNumbers, setPhoneNumbers] = useState<{ from: string; to: string } | null>(null);
+  const [showVoiceflow, setShowVoiceflow] = useState(false);
+
+  const isActiveLine = (line: TranscriptLine) =>
+    currentTime !== null &&
+    line.startTime !== undefined &&
+    line.endTime !== undefined &&
+    currentTime >= line.startTime &&
+    currentTime < line.endTime;
+
+  const seekTo = (seconds: number | undefined) => {
+    const audio = audioRef.current;
+    if (!audio || seconds === undefined) return;
+    audio.currentTime = seconds;
+    audio.play().catch(error => console.error('Error playing audio:', error));
+  };
+
+  const formatTimestamp = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  // Transcripts are not part of the call list; the server audits each read
+  const fetchTranscript = async () => {
+    try {
+      setTranscriptError(null);
+      const response = await fetch(`/api/calls/${encodeURIComponent(call.id)}/transcript`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.details || 'Failed to fetch transcript');
+      }
+      const data = await response.json();
+      setTranscript(data.transcript);
+    } catch (error) {
+      console.error('Error fetching transcript:', error);
+      setTranscriptError(error instanceof Error ? error.message : 'Failed to fetch transcript');
+    }
+  };
+
+  const toggleTranscript = () => {
+    if (!isExpanded && !transcript) {
+      fetchTranscript();
+    }
+    setIsExpanded(!isExpanded);
+  };
+
+  // Audio is proxied and cached by our server rather than loaded from Twilio.
+  // A speaker's track is their channel of the dual-channel recording.
+  const audioUrl = (download = false, track?: 'customer' | 'assistant') =>
+    `/api/calls/${encodeURIComponent(call.id)}/audio?variant=${variant}${track ? `&track=${track}` : ''}${download ? '&download=1' : ''}`;
+
+  const hasRedactions = !!transcript?.some(line => REDACTION_TOKEN.test(line.text));
+
+  // Reading the originals is audited by the server
+  const revealRedactions = async () => {
+    if (!window.confirm('Show the personal information removed from this transcript? This is recorded in the audit log.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/calls/${encodeURIComponent(call.id)}/redactions`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.details || 'Failed to fetch redacted text');
+      }
+      const data = await response.json();
+      setRedactions(data.redactions);
+    } catch (error) {
+      console.error('Error revealing redacted text:', error);
+      window.alert(error instanceof Error ? error.message : 'Failed to fetch redacted text');
+    }
+  };
+
+  // The server masks phone numbers; the full ones are fetched one call at a time and audited
+  const revealPhoneNumbers = async () => {
+    try {
+      const response = await fetch(`/api/calls/${encodeURIComponent(call.id)}/phone-numbers`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.details || 'Failed to fetch phone numbers');
+      }
+      setPhoneNumbers(await response.json());
+    } catch (error) {
+      console.error('Error revealing phone numbers:', error);
+      window.alert(error instanceof Error ? error.message : 'Failed to fetch phone numbers');
+    }
+  };
+
+  const lineRedactions = (line: TranscriptLine, index: number) =>
+    redactions?.filter(redaction => redaction.sentenceIndex === (line.sentenceIndex ?? index)) ?? [];
+
+  const handleLegalHold = async () => {
+    if (call.legalHold) {
+      if (!window.confirm('Release the legal hold on this call? It can then be deleted and purged by retention rules.')) {
+        return;
+      }
+      await onLegalHoldChange(call.id, null);
+      return;
+    }
+
+    const reason = window.prompt('Why is this call being placed under legal hold?');
+    if (reason?.trim()) {
+      await onLegalHoldChange(call.id, reason.trim());
+    }
+  };
 
   const handleDelete = async () => {
     if (!window.confirm('Are you sure you want to delete this call? This action cannot be undone.')) {
@@ -68,6 +263,15 @@ export function CallRecord({ call, onDelete }: CallRecordProps & { onDelete: (id
     }
   };
 
+  // One line per archived variant, e.g. "raw: calls/2025/01/GT.../raw.wav (1.2 MB, sha256 3f2a…)"
+  const formatArchive = (archive: NonNullable<CallRecordProps['call']['archive']>) =>
+    Object.entries(archive)
+      .map(([name, object]) => [
+        `${name}: ${object.key} (${(object.size / 1024 / 1024).toFixed(1)} MB, sha256 ${object.sha256.slice(0, 8)}…)`,
+        object.twilioDeletedAt ? ' - Twilio copy deleted' : ''
+      ].join(''))
+      .join('\n');
+
   return (
     <div className={`relative border border-gray-700 rounded-lg p-4 bg-gray-800 shadow-sm ${isDeleting ? 'opacity-50 pointer-events-none' : ''}`}>
       {isDeleting && (
@@ -77,56 +281,229 @@ export function CallRecord({ call, onDelete }: CallRecordProps & { onDelete: (id
       )}
       <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
         <div>
-          <h2 className="font-semibold text-gray-100">Call {call.id}</h2>
-          <p className="text-sm text-gray-400">
-            From: {call.from} • To: {call.to} • Duration: {formatDuration(call.duration)}
+          <h2 className="flex items-center gap-2 font-semibold text-gray-100">
+            Call {call.id}
+            {call.legalHold && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-900/60 text-amber-300 text-xs font-medium"
+                title={`Held by ${call.legalHold.by} on ${formatDateTime(call.legalHold.at)}: ${call.legalHold.reason}`}
+              >
+                <LockClosedIcon className="w-3.5 h-3.5" />
+                Legal hold
+              </span>
+            )}
+            {call.archive && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 text-gray-300 text-xs font-medium"
+                title={formatArchive(call.archive)}
+              >
+                <ArchiveBoxIcon className="w-3.5 h-3.5" />
+                Archived
+              </span>
+            )}
+            {call.insights?.sentiment && (
+              <span
+                className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${SENTIMENT_STYLES[call.insights.sentiment] ?? 'bg-gray-700 text-gray-300'}`}
+                title={call.insights.sentimentScore !== undefined
+                  ? `Sentiment confidence: ${Math.round(call.insights.sentimentScore * 100)}%`
+                  : undefined}
+              >
+                {call.insights.sentiment}
+              </span>
+            )}
+          </h2>
+          <p className="flex items-center gap-1 text-sm text-gray-400">
+            From: {phoneNumbers?.from ?? call.from} • To: {phoneNumbers?.to ?? call.to} • Duration: {formatDuration(call.duration)}
+            {canRevealPii && !phoneNumbers && (
+              <button
+                onClick={revealPhoneNumbers}
+                className="p-0.5 rounded text-gray-500 hover:text-gray-200"
+                title="Show full phone numbers (recorded in the audit log)"
+              >
+                <EyeIcon className="w-4 h-4" />
+              </button>
+            )}
           </p>
           <p className="text-sm text-gray-500 mt-1">
             {formatDateTime(call.createdAt)}
           </p>
+          {call.metrics && (
+            <p className="text-sm text-gray-400 mt-1">
+              👤 {formatDuration(String(Math.round(call.metrics.customerTalkTime)))} • 🤖 {formatDuration(String(Math.round(call.metrics.assistantTalkTime)))}
+              {' • '}{call.metrics.turns} turns
+              {' • '}Longest silence {call.metrics.longestSilence.toFixed(1)} sec
+              {' • '}{call.metrics.overlaps} {call.metrics.overlaps === 1 ? 'overlap' : 'overlaps'}
+              {call.metrics.responseLatency !== undefined && ` • Avg response ${call.metrics.responseLatency.toFixed(1)} sec`}
+            </p>
+          )}
+          {call.insights?.summary && (
+            <p className="text-sm text-gray-300 mt-2 max-w-3xl">{call.insights.summary}</p>
+          )}
+          {call.insights && (call.insights.topics.length > 0 || call.insights.classifiers.length > 0) && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {call.insights.topics.map(topic => (
+                <span key={topic} className="px-2 py-0.5 rounded-full bg-blue-900/50 text-blue-200 text-xs">
+                  {topic}
+                </span>
+              ))}
+              {call.insights.classifiers.map(classifier => (
+                <span
+                  key={classifier.name}
+                  className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-300 text-xs"
+                  title={classifier.probability !== undefined
+                    ? `${classifier.name} (${Math.round(classifier.probability * 100)}%)`
+                    : classifier.name}
+                >
+                  {classifier.name}: {classifier.label}
+                </span>
+              ))}
+            </div>
+          )}
+          {!isExpanded && call.highlights && call.highlights.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {call.highlights.map((highlight, i) => (
+                <p key={i} className="text-sm text-gray-300">
+                  <span className="font-medium">
+                    {highlight.speaker === 'customer' ? '👤' : '🤖'}:
+                  </span>{' '}
+                  {highlight.parts.map((part, j) => part.match ? (
+                    <mark key={j} className="bg-yellow-500/30 text-gray-100 rounded px-0.5">{part.text}</mark>
+                  ) : (
+                    <span key={j}>{part.text}</span>
+                  ))}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
         <div className="flex flex-wrap items-center gap-2">
-          <audio controls src={call.piiUrl} className="h-8 w-[300px] lg:w-[250px]" />
+          <audio
+            ref={audioRef}
+            controls
+            src={audioUrl()}
+            preload="none"
+            onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+            onEnded={() => setCurrentTime(null)}
+            className="h-8 w-[300px] lg:w-[250px]"
+          />
+          <ChannelControls audioRef={audioRef} downloadUrl={speaker => audioUrl(true, speaker)} />
+          {canPlayRaw && (
+            <select
+              value={variant}
+              onChange={(e) => setVariant(e.target.value as 'redacted' | 'raw')}
+              className="h-8 px-2 bg-gray-900 border border-gray-700 rounded text-sm text-gray-200"
+              title="Audio version"
+            >
+              <option value="redacted">Redacted</option>
+              <option value="raw">Raw</option>
+            </select>
+          )}
           <div className="flex flex-wrap gap-2">
             <button
-              onClick={() => window.open(call.piiUrl, '_blank')}
+              onClick={() => window.open(audioUrl(true), '_blank')}
               className="p-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              title="Download PII"
+              title={variant === 'raw' ? 'Download raw recording' : 'Download PII'}
             >
               <ArrowDownTrayIcon className="w-5 h-5" />
             </button>
             <button
-              onClick={() => setIsExpanded(!isExpanded)}
+              onClick={toggleTranscript}
               className="p-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
               title={isExpanded ? 'Hide Transcript' : 'Show Transcript'}
             >
               <DocumentTextIcon className="w-5 h-5" />
             </button>
-            <button
-              onClick={handleDelete}
-              className="p-2 bg-red-600 text-white rounded hover:bg-red-700"
-              title="Delete"
-              disabled={isDeleting}
-            >
-              <TrashIcon className="w-5 h-5" />
-            </button>
+            {canManageHold && (
+              <button
+                onClick={handleLegalHold}
+                className={`p-2 rounded ${call.legalHold ? 'bg-amber-600 text-white hover:bg-amber-700' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                title={call.legalHold ? 'Release legal hold' : 'Place legal hold'}
+              >
+                <ScaleIcon className="w-5 h-5" />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={handleDelete}
+                className="p-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-red-600"
+                title={call.legalHold ? 'Calls under legal hold cannot be deleted' : 'Delete'}
+                disabled={isDeleting || !!call.legalHold}
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            )}
           </div>
         </div>
       </div>
 
       {isExpanded && (
         <div className="mt-4 space-y-2">
-          {call.transcript.map((line, i) => (
+          <Waveform callId={call.id} currentTime={currentTime} onSeek={seekTo} />
+          {call.insights && call.insights.entities.length > 0 && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {call.insights.entities.map((entity, i) => (
+                <div key={i} className="contents">
+                  <dt className="text-gray-400">{entity.type}</dt>
+                  <dd className="text-gray-200">{entity.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          {(call.voiceflow || (canRevealPii && hasRedactions)) && (
+            <div className="flex justify-end gap-2">
+              {call.voiceflow && (
+                <button
+                  onClick={() => setShowVoiceflow(!showVoiceflow)}
+                  className="px-3 py-1 text-sm border border-gray-700 rounded bg-gray-800 text-gray-200 hover:bg-gray-700"
+                  title={`Voiceflow project ${call.voiceflow.projectId}${call.voiceflow.userId ? `, user ${call.voiceflow.userId}` : ''}`}
+                >
+                  {showVoiceflow ? 'Hide Voiceflow' : 'Compare with Voiceflow'}
+                </button>
+              )}
+              {canRevealPii && hasRedactions && (redactions ? (
+                <button
+                  onClick={() => setRedactions(null)}
+                  className="px-3 py-1 text-sm border border-gray-700 rounded bg-gray-800 text-gray-200 hover:bg-gray-700"
+                >
+                  Hide redacted text
+                </button>
+              ) : (
+                <button
+                  onClick={revealRedactions}
+                  className="px-3 py-1 text-sm border border-amber-700 rounded bg-gray-800 text-amber-300 hover:bg-gray-700"
+                >
+                  Reveal redacted text
+                </button>
+              ))}
+            </div>
+          )}
+          {transcriptError && <p className="text-sm text-red-500">Error: {transcriptError}</p>}
+          {!transcript ? (
+            !transcriptError && <div className="text-sm text-gray-500">Loading transcript...</div>
+          ) : showVoiceflow ? (
+            <VoiceflowTimeline callId={call.id} transcript={transcript} onSeek={seekTo} />
+          ) : transcript.map((line, i) => (
             <div
               key={i}
+              onClick={() => seekTo(line.startTime)}
               className={`p-2 rounded ${
                 line.speaker === 'customer' ? 'bg-blue-900/50' : 'bg-gray-700/50'
+              } ${line.startTime !== undefined ? 'cursor-pointer hover:ring-1 hover:ring-gray-500' : ''} ${
+                isActiveLine(line) ? 'ring-2 ring-blue-400' : ''
               }`}
+              title={line.confidence !== undefined ? `Confidence: ${Math.round(line.confidence * 100)}%` : undefined}
             >
+              {line.startTime !== undefined && (
+                <span className="text-xs text-gray-400 mr-2">{formatTimestamp(line.startTime)}</span>
+              )}
               <span className="font-medium">
                 {line.speaker === 'customer' ? '👤' : '🤖'}:
               </span>{' '}
-              {line.text}
+              {revealText(line.text, lineRedactions(line, i)).map((part, j) => (
+                part.revealed
+                  ? <mark key={j} className="bg-amber-900/60 text-amber-200 rounded px-0.5">{part.text}</mark>
+                  : <span key={j}>{part.text}</span>
+              ))}
             </div>
           ))}
         </div>
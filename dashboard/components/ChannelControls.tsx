@@ -0,0 +1,89 @@
+'use client';
+
+import { type RefObject, useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from '@heroicons/react/24/outline';
+
+type Speaker = 'customer' | 'assistant';
+
+// Recordings are dual channel: the customer on the first channel, the assistant on the second
+const CHANNELS: { speaker: Speaker; label: string }[] = [
+  { speaker: 'customer', label: '👤 Customer' },
+  { speaker: 'assistant', label: '🤖 Assistant' }
+];
+
+interface ChannelControlsProps {
+  audioRef: RefObject<HTMLAudioElement | null>;
+  downloadUrl: (speaker: Speaker) => string;
+}
+
+interface ChannelGraph {
+  context: AudioContext;
+  gains: GainNode[];
+}
+
+export function ChannelControls({ audioRef, downloadUrl }: ChannelControlsProps) {
+  const [muted, setMuted] = useState<Record<Speaker, boolean>>({ customer: false, assistant: false });
+  const graphRef = useRef<ChannelGraph | null>(null);
+
+  useEffect(() => () => {
+    graphRef.current?.context.close();
+  }, []);
+
+  // Routing the element through Web Audio takes its output over for good, so this
+  // only happens on the first mute. The channels stay on their own side.
+  const getGraph = () => {
+    const audio = audioRef.current;
+    if (!audio) return null;
+
+    if (!graphRef.current) {
+      const context = new AudioContext();
+      const splitter = context.createChannelSplitter(2);
+      const merger = context.createChannelMerger(2);
+      const gains = CHANNELS.map((_, channel) => {
+        const gain = context.createGain();
+        splitter.connect(gain, channel);
+        gain.connect(merger, 0, channel);
+        return gain;
+      });
+
+      context.createMediaElementSource(audio).connect(splitter);
+      merger.connect(context.destination);
+      graphRef.current = { context, gains };
+    }
+    return graphRef.current;
+  };
+
+  const toggleMute = (speaker: Speaker, channel: number) => {
+    const graph = getGraph();
+    if (!graph) return;
+
+    const next = !muted[speaker];
+    graph.gains[channel].gain.value = next ? 0 : 1;
+    graph.context.resume().catch(error => console.error('Error resuming audio:', error));
+    setMuted(prev => ({ ...prev, [speaker]: next }));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {CHANNELS.map(({ speaker, label }, channel) => (
+        <div key={speaker} className="flex items-center rounded border border-gray-700 text-sm text-gray-300">
+          <button
+            onClick={() => toggleMute(speaker, channel)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-l hover:bg-gray-700 ${muted[speaker] ? 'text-gray-500 line-through' : ''}`}
+            title={muted[speaker] ? `Unmute ${speaker}` : `Mute ${speaker}`}
+          >
+            {muted[speaker] ? <SpeakerXMarkIcon className="w-4 h-4" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+            {label}
+          </button>
+          <button
+            onClick={() => window.open(downloadUrl(speaker), '_blank')}
+            className="px-2 py-1 border-l border-gray-700 rounded-r hover:bg-gray-700"
+            title={`Download ${speaker} track`}
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FunnelIcon } from '@heroicons/react/24/outline';
+
+export interface CallFilters {
+  createdFrom?: string;
+  createdTo?: string;
+  minDuration?: string;
+  maxDuration?: string;
+  fromNumber?: string;
+  toNumber?: string;
+  direction?: string;
+  customerSaid?: string;
+  assistantSaid?: string;
+  sentiment?: string;
+  topic?: string;
+  entity?: string;
+  classifier?: string;
+  minCustomerTalkTime?: string;
+  maxCustomerTalkTime?: string;
+  minAssistantTalkTime?: string;
+  maxAssistantTalkTime?: string;
+  minLongestSilence?: string;
+  maxLongestSilence?: string;
+  minOverlaps?: string;
+  maxOverlaps?: string;
+  minResponseLatency?: string;
+  maxResponseLatency?: string;
+  minTurns?: string;
+  maxTurns?: string;
+}
+
+// Conversation metrics, filtered as min<Name> and max<Name>
+const METRIC_FILTERS = [
+  { name: 'CustomerTalkTime', label: '👤 Talk time (sec)' },
+  { name: 'AssistantTalkTime', label: '🤖 Talk time (sec)' },
+  { name: 'LongestSilence', label: 'Longest silence (sec)' },
+  { name: 'Overlaps', label: 'Overlaps' },
+  { name: 'ResponseLatency', label: 'Avg response (sec)' },
+  { name: 'Turns', label: 'Turns' }
+] as const;
+
+export const FILTER_KEYS: (keyof CallFilters)[] = [
+  'createdFrom',
+  'createdTo',
+  'minDuration',
+  'maxDuration',
+  'fromNumber',
+  'toNumber',
+  'direction',
+  'customerSaid',
+  'assistantSaid',
+  'sentiment',
+  'topic',
+  'entity',
+  'classifier',
+  ...METRIC_FILTERS.flatMap(({ name }) => [`min${name}`, `max${name}`] as const)
+];
+
+interface FilterPanelProps {
+  value: CallFilters;
+  onChange: (value: CallFilters) => void;
+}
+
+const inputClassName = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-100 placeholder-gray-500';
+
+export function FilterPanel({ value, onChange }: FilterPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<CallFilters>(value);
+
+  // Keep the form in sync when filters change from the URL (e.g. back button)
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const activeCount = FILTER_KEYS.filter(key => value[key]).length;
+
+  const update = (key: keyof CallFilters, fieldValue: string) => {
+    setDraft(prev => ({ ...prev, [key]: fieldValue || undefined }));
+  };
+
+  const handleApply = () => {
+    onChange(draft);
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    onChange({});
+  };
+
+  const field = (key: keyof CallFilters, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="block text-sm text-gray-400">
+      {label}
+      <input
+        {...props}
+        value={draft[key] ?? ''}
+        onChange={(e) => update(key, e.target.value)}
+        className={`mt-1 ${inputClassName}`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200 hover:bg-gray-700"
+        title="Filters"
+      >
+        <FunnelIcon className="w-5 h-5" />
+        Filters{activeCount > 0 && ` (${activeCount})`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-10 mt-2 w-[480px] max-w-[90vw] max-h-[80vh] overflow-y-auto p-4 bg-gray-800 border border-gray-700 rounded-lg shadow-lg space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {field('createdFrom', 'From date', { type: 'date' })}
+            {field('createdTo', 'To date', { type: 'date' })}
+            {field('minDuration', 'Min duration (sec)', { type: 'number', min: 0 })}
+            {field('maxDuration', 'Max duration (sec)', { type: 'number', min: 0 })}
+            {field('fromNumber', 'From number', { placeholder: '+15551234567' })}
+            {field('toNumber', 'To number', { placeholder: '+15551234567' })}
+          </div>
+
+          <label className="block text-sm text-gray-400">
+            Direction
+            <select
+              value={draft.direction ?? ''}
+              onChange={(e) => update('direction', e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            >
+              <option value="">Any</option>
+              <option value="inbound">Inbound</option>
+              <option value="outbound">Outbound</option>
+            </select>
+          </label>
+
+          {field('customerSaid', '👤 Customer said', { placeholder: 'e.g. "cancel my order"' })}
+          {field('assistantSaid', '🤖 Assistant said', { placeholder: 'e.g. refund' })}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-gray-400">
+              Sentiment
+              <select
+                value={draft.sentiment ?? ''}
+                onChange={(e) => update('sentiment', e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              >
+                <option value="">Any</option>
+                <option value="positive">Positive</option>
+                <option value="neutral">Neutral</option>
+                <option value="negative">Negative</option>
+                <option value="mixed">Mixed</option>
+              </select>
+            </label>
+            {field('topic', 'Topic', { placeholder: 'e.g. billing' })}
+            {field('entity', 'Entity', { placeholder: 'e.g. product' })}
+            {field('classifier', 'Classifier label', { placeholder: 'e.g. escalation' })}
+          </div>
+
+          <div className="grid grid-cols-[1fr_5rem_5rem] items-center gap-x-3 gap-y-1 text-sm text-gray-400">
+            <span>Conversation</span>
+            <span>Min</span>
+            <span>Max</span>
+            {METRIC_FILTERS.map(({ name, label }) => (
+              <div key={name} className="contents">
+                <span>{label}</span>
+                {(['min', 'max'] as const).map(bound => (
+                  <input
+                    key={bound}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft[`${bound}${name}`] ?? ''}
+                    onChange={(e) => update(`${bound}${name}`, e.target.value)}
+                    className={inputClassName}
+                    aria-label={`${bound === 'min' ? 'Minimum' : 'Maximum'} ${label}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              onClick={handleClear}
+              className="px-3 py-1 border border-gray-700 rounded bg-gray-800 text-gray-200 hover:bg-gray-700"
+            >
+              Clear
+            </button>
+            <button
+              onClick={handleApply}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
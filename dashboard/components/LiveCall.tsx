@@ -0,0 +1,68 @@
+'use client';
+
+export interface LiveCallState {
+  callSid: string;
+  from: string;
+  to: string;
+  startedAt: string;
+  ended: boolean;
+  lines: {
+    speaker: 'customer' | 'assistant';
+    text: string;
+  }[];
+  partials: Partial<Record<'customer' | 'assistant', string>>;
+}
+
+interface LiveCallProps {
+  call: LiveCallState;
+}
+
+export function LiveCall({ call }: LiveCallProps) {
+  const partialLines = Object.entries(call.partials)
+    .filter(([, text]) => text)
+    .map(([speaker, text]) => ({ speaker: speaker as 'customer' | 'assistant', text: text! }));
+
+  return (
+    <div className="relative border border-green-700 rounded-lg p-4 bg-gray-800 shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-gray-100">Call {call.callSid}</h2>
+          <p className="text-sm text-gray-400">
+            From: {call.from || 'Unknown'} • To: {call.to || 'Unknown'}
+          </p>
+        </div>
+        <span className={`flex items-center gap-2 text-sm ${call.ended ? 'text-gray-400' : 'text-green-400'}`}>
+          {!call.ended && <span className="h-2 w-2 rounded-full bg-green-400 animate-pulse"></span>}
+          {call.ended ? 'Processing recording...' : 'In progress'}
+        </span>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {call.lines.length === 0 && partialLines.length === 0 && (
+          <p className="text-sm text-gray-500">Waiting for speech...</p>
+        )}
+        {call.lines.map((line, i) => (
+          <div
+            key={i}
+            className={`p-2 rounded ${
+              line.speaker === 'customer' ? 'bg-blue-900/50' : 'bg-gray-700/50'
+            }`}
+          >
+            <span className="font-medium">
+              {line.speaker === 'customer' ? '👤' : '🤖'}:
+            </span>{' '}
+            {line.text}
+          </div>
+        ))}
+        {partialLines.map(line => (
+          <div key={`partial-${line.speaker}`} className="p-2 rounded text-gray-400 italic">
+            <span className="font-medium not-italic">
+              {line.speaker === 'customer' ? '👤' : '🤖'}:
+            </span>{' '}
+            {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { sameOriginPath } from '@/lib/redirect';
+
+interface LoginFormProps {
+  oidcEnabled: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-100';
+
+export function LoginForm({ oidcEnabled }: LoginFormProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to sign in');
+      }
+
+      router.replace(sameOriginPath(searchParams.get('next'), window.location.origin));
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <label className="block text-sm text-gray-400">
+          Username
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            required
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+        <label className="block text-sm text-gray-400">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className={`mt-1 ${inputClassName}`}
+          />
+        </label>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full px-3 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+
+      {oidcEnabled && (
+        <a
+          href="/api/auth/oidc/login"
+          className="block w-full px-3 py-2 text-center border border-gray-700 rounded bg-gray-800 text-gray-200 hover:bg-gray-700"
+        >
+          Sign in with single sign-on
+        </a>
+      )}
+    </div>
+  );
+}
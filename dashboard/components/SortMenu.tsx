@@ -0,0 +1,52 @@
+import { BarsArrowDownIcon, BarsArrowUpIcon } from '@heroicons/react/24/outline';
+
+export interface CallSort {
+  sort?: string;
+  order?: string;
+}
+
+// No sort keeps the server's default: newest first, or by relevance when searching
+const SORT_FIELDS = [
+  { value: 'createdAt', label: 'Date' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'customerTalkTime', label: '👤 Talk time' },
+  { value: 'assistantTalkTime', label: '🤖 Talk time' },
+  { value: 'longestSilence', label: 'Longest silence' },
+  { value: 'overlaps', label: 'Overlaps' },
+  { value: 'responseLatency', label: 'Avg response' },
+  { value: 'turns', label: 'Turns' }
+];
+
+interface SortMenuProps {
+  value: CallSort;
+  onChange: (value: CallSort) => void;
+}
+
+export function SortMenu({ value, onChange }: SortMenuProps) {
+  const order = value.order === 'asc' ? 'asc' : 'desc';
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={value.sort ?? ''}
+        onChange={(e) => onChange({ sort: e.target.value || undefined, order: e.target.value ? value.order : undefined })}
+        className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200"
+        title="Sort by"
+      >
+        <option value="">Default order</option>
+        {SORT_FIELDS.map(field => (
+          <option key={field.value} value={field.value}>{field.label}</option>
+        ))}
+      </select>
+      {value.sort && (
+        <button
+          onClick={() => onChange({ ...value, order: order === 'desc' ? 'asc' : undefined })}
+          className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-200 hover:bg-gray-700"
+          title={order === 'desc' ? 'Highest first' : 'Lowest first'}
+        >
+          {order === 'desc' ? <BarsArrowDownIcon className="w-5 h-5" /> : <BarsArrowUpIcon className="w-5 h-5" />}
+        </button>
+      )}
+    </div>
+  );
+}
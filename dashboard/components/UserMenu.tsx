@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowRightOnRectangleIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import type { DashboardUser } from '@/lib/roles';
+
+interface UserMenuProps {
+  user: DashboardUser;
+}
+
+export function UserMenu({ user }: UserMenuProps) {
+  const router = useRouter();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      router.replace('/login');
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-300">
+      <span className="flex items-center gap-1">
+        <UserCircleIcon className="w-5 h-5" />
+        {user.username}
+        <span className="px-2 py-0.5 rounded bg-gray-700 text-xs text-gray-300 capitalize">{user.role}</span>
+      </span>
+      <button
+        onClick={handleSignOut}
+        disabled={isSigningOut}
+        className="p-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+        title="Sign out"
+      >
+        <ArrowRightOnRectangleIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+}
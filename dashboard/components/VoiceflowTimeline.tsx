@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface TranscriptLine {
+  speaker: 'customer' | 'assistant';
+  text: string;
+  startTime?: number;
+}
+
+interface VoiceflowTurn {
+  type: 'intent' | 'request' | 'block' | 'speak';
+  label: string;
+  offset?: number;
+  confidence?: number;
+}
+
+interface VoiceflowTimelineProps {
+  callId: string;
+  transcript: TranscriptLine[];
+  onSeek: (seconds: number | undefined) => void;
+}
+
+const TURN_STYLES: Record<VoiceflowTurn['type'], { icon: string; className: string }> = {
+  intent: { icon: '🎯', className: 'bg-purple-900/50 text-purple-200' },
+  request: { icon: '👂', className: 'bg-gray-700/50 text-gray-300' },
+  block: { icon: '🧱', className: 'bg-gray-900 text-gray-400 text-xs' },
+  speak: { icon: '💬', className: 'bg-gray-700/50 text-gray-200' }
+};
+
+export function VoiceflowTimeline({ callId, transcript, onSeek }: VoiceflowTimelineProps) {
+  const [turns, setTurns] = useState<VoiceflowTurn[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTurns = async () => {
+      try {
+        const response = await fetch(`/api/calls/${encodeURIComponent(callId)}/voiceflow`);
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.details || 'Failed to fetch Voiceflow transcript');
+        }
+        const body = await response.json();
+        if (!cancelled) setTurns(body.turns);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch Voiceflow transcript');
+      }
+    };
+
+    fetchTurns();
+    return () => {
+      cancelled = true;
+    };
+  }, [callId]);
+
+  if (error) {
+    return <p className="text-sm text-gray-500">Voiceflow transcript unavailable: {error}</p>;
+  }
+  if (!turns) {
+    return <div className="text-sm text-gray-500">Loading Voiceflow transcript...</div>;
+  }
+
+  const line = (item: TranscriptLine, key: number) => (
+    <div
+      key={`line-${key}`}
+      onClick={() => onSeek(item.startTime)}
+      className={`col-start-1 p-2 rounded ${item.speaker === 'customer' ? 'bg-blue-900/50' : 'bg-gray-700/50'} ${
+        item.startTime !== undefined ? 'cursor-pointer hover:ring-1 hover:ring-gray-500' : ''
+      }`}
+    >
+      <span className="font-medium">{item.speaker === 'customer' ? '👤' : '🤖'}:</span> {item.text}
+    </div>
+  );
+
+  const turn = (item: VoiceflowTurn, key: number) => (
+    <div
+      key={`turn-${key}`}
+      onClick={() => onSeek(item.offset)}
+      className={`col-start-2 p-2 rounded ${TURN_STYLES[item.type].className} ${
+        item.offset !== undefined ? 'cursor-pointer hover:ring-1 hover:ring-gray-500' : ''
+      }`}
+      title={item.confidence !== undefined ? `Confidence: ${Math.round(item.confidence * 100)}%` : undefined}
+    >
+      {TURN_STYLES[item.type].icon} {item.label}
+    </div>
+  );
+
+  // With times on both sides, lines and turns share one timeline, so each turn
+  // sits beside or below the line it followed; otherwise the columns are independent
+  const isTimed = transcript.every(item => item.startTime !== undefined) && turns.every(item => item.offset !== undefined);
+  const timeline = [
+    ...transcript.map((item, i) => ({ time: item.startTime ?? 0, element: line(item, i) })),
+    ...turns.map((item, i) => ({ time: item.offset ?? 0, element: turn(item, i) }))
+  ].sort((a, b) => a.time - b.time);
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      <div className="font-medium text-gray-400">Twilio transcript</div>
+      <div className="font-medium text-gray-400">Voiceflow</div>
+      {isTimed ? timeline.map(entry => entry.element) : (
+        <>
+          <div className="space-y-1">{transcript.map(line)}</div>
+          <div className="space-y-1">{turns.map(turn)}</div>
+        </>
+      )}
+    </div>
+  );
+}
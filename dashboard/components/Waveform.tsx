@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+type Speaker = 'customer' | 'assistant';
+
+interface WaveformData {
+  duration: number;
+  // One list per channel, customer first
+  peaks: number[][];
+  redactions: {
+    speaker: Speaker;
+    start: number;
+    end: number;
+    labels: string[];
+  }[];
+}
+
+interface WaveformProps {
+  callId: string;
+  currentTime: number | null;
+  onSeek: (seconds: number) => void;
+}
+
+const LANE_HEIGHT = 40;
+const LANES: { speaker: Speaker; label: string; color: string }[] = [
+  { speaker: 'customer', label: '👤', color: '#60a5fa' },
+  { speaker: 'assistant', label: '🤖', color: '#9ca3af' }
+];
+
+export function Waveform({ callId, currentTime, onSeek }: WaveformProps) {
+  const [data, setData] = useState<WaveformData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchWaveform = async () => {
+      try {
+        const response = await fetch(`/api/calls/${encodeURIComponent(callId)}/waveform`);
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.details || 'Failed to fetch waveform');
+        }
+        const body = await response.json();
+        if (!cancelled) setData(body);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch waveform');
+      }
+    };
+
+    fetchWaveform();
+    return () => {
+      cancelled = true;
+    };
+  }, [callId]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !data) return;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      canvas.width = width * ratio;
+      canvas.height = data.peaks.length * LANE_HEIGHT * ratio;
+
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      context.scale(ratio, ratio);
+
+      data.peaks.forEach((peaks, lane) => {
+        const middle = lane * LANE_HEIGHT + LANE_HEIGHT / 2;
+        const barWidth = Math.max(width / peaks.length, 1);
+        // A mono recording has one lane with both speakers
+        context.fillStyle = data.peaks.length === 1 ? '#d1d5db' : LANES[lane]?.color ?? '#d1d5db';
+        peaks.forEach((peak, i) => {
+          const height = Math.max(peak * (LANE_HEIGHT / 2 - 2), 0.5);
+          context.fillRect((i / peaks.length) * width, middle - height, barWidth, height * 2);
+        });
+      });
+    };
+
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [data]);
+
+  if (error) {
+    return <p className="text-sm text-gray-500">Waveform unavailable: {error}</p>;
+  }
+  if (!data) {
+    return <div className="h-10 rounded bg-gray-900 animate-pulse" />;
+  }
+
+  const laneOf = (speaker: Speaker) =>
+    data.peaks.length === 1 ? 0 : LANES.findIndex(lane => lane.speaker === speaker);
+  const percent = (seconds: number) => `${Math.min(seconds / data.duration, 1) * 100}%`;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - bounds.left) / bounds.width) * data.duration);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <div className="flex flex-col text-sm">
+        {data.peaks.map((_, lane) => (
+          <span key={lane} className="flex items-center" style={{ height: LANE_HEIGHT }}>
+            {data.peaks.length === 1 ? '👥' : LANES[lane]?.label}
+          </span>
+        ))}
+      </div>
+      <div className="relative flex-1 cursor-pointer rounded bg-gray-900" onClick={handleClick}>
+        <canvas ref={canvasRef} className="block w-full" style={{ height: data.peaks.length * LANE_HEIGHT }} />
+
+        {data.redactions.map((region, i) => (
+          <button
+            key={i}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(region.start);
+            }}
+            className="absolute bg-amber-500/30 border-x border-amber-400 hover:bg-amber-500/50"
+            style={{
+              left: percent(region.start),
+              width: `max(${percent(region.end - region.start)}, 2px)`,
+              top: laneOf(region.speaker) * LANE_HEIGHT,
+              height: LANE_HEIGHT
+            }}
+            title={`Redacted ${region.labels.join(', ')}`}
+          />
+        ))}
+
+        {currentTime !== null && (
+          <div className="absolute inset-y-0 w-px bg-red-400 pointer-events-none" style={{ left: percent(currentTime) }} />
+        )}
+      </div>
+    </div>
+  );
+}
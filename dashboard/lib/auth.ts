@@ -0,0 +1,83 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { BunServerError, bunFetch, bunJson, errorResponse, type ApiError } from '@/lib/bunServer';
+import { hasRole, type DashboardUser, type Role } from '@/lib/roles';
+
+export const SESSION_COOKIE = 'dashboard_session';
+
+export interface SessionResponse {
+  token: string;
+  user: DashboardUser;
+  maxAgeSeconds: number;
+}
+
+// Resolve a session cookie to its user; null when missing, expired or revoked
+export async function getSessionUser(token: string | undefined): Promise<DashboardUser | null> {
+  if (!token) return null;
+
+  try {
+    const { user } = await bunJson<{ user: DashboardUser }>('/auth/session', {
+      headers: { 'X-Session-Token': token }
+    });
+    return user;
+  } catch (error) {
+    if (error instanceof BunServerError && error.status === 401) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getCurrentUser() {
+  const cookieStore = await cookies();
+  return getSessionUser(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+// For API routes: the signed-in user with at least `role`, or the 401/403 to return
+export async function requireRole(role: Role): Promise<{ user: DashboardUser } | { response: NextResponse }> {
+  let user: DashboardUser | null;
+  try {
+    user = await getCurrentUser();
+  } catch (error) {
+    return { response: errorResponse(error, 'Failed to check session') };
+  }
+
+  if (!user) {
+    return {
+      response: NextResponse.json<ApiError>(
+        { error: 'Unauthorized', details: 'Please sign in' },
+        { status: 401 }
+      )
+    };
+  }
+
+  if (!hasRole(user, role)) {
+    return {
+      response: NextResponse.json<ApiError>(
+        { error: 'Forbidden', details: `This action requires the ${role} role` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+export function setSessionCookie(response: NextResponse, session: SessionResponse) {
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: session.maxAgeSeconds
+  });
+  return response;
+}
+
+export async function endSession(token: string | undefined) {
+  if (!token) return;
+  await bunFetch('/auth/logout', {
+    method: 'POST',
+    headers: { 'X-Session-Token': token }
+  });
+}
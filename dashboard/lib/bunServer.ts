@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import type { DashboardUser } from '@/lib/roles';
+
+// Keep in sync with next.config.js and .env.local.template
+export const BUN_SERVER = process.env.BUN_SERVER || 'http://localhost:3902';
+
+// Shared secret the Bun server requires on every non-webhook route
+const BUN_SERVICE_TOKEN = process.env.BUN_SERVICE_TOKEN || '';
+
+// Headers identifying the dashboard (and the user it is acting for) to the Bun server
+export function serviceHeaders(user?: DashboardUser): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${BUN_SERVICE_TOKEN}`,
+    ...(user && {
+      'X-Dashboard-User': user.username,
+      'X-Dashboard-Role': user.role
+    })
+  };
+}
+
+export interface ApiError {
+  error: string;
+  details: string;
+}
+
+export class BunServerError extends Error {
+  constructor(
+    public status: number,
+    public error: string,
+    public details: string
+  ) {
+    super(details);
+    this.name = 'BunServerError';
+  }
+}
+
+export function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof BunServerError) {
+    return NextResponse.json<ApiError>(
+      { error: error.error, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  const details = error instanceof Error ? error.message : 'Unknown error occurred';
+  return NextResponse.json<ApiError>({ error: fallback, details }, { status: 500 });
+}
+
+// Turn a failed Bun response into a BunServerError, keeping its status and
+// its { error, details } body when it sent one
+async function toBunServerError(response: Response) {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    return new BunServerError(
+      response.status,
+      body.error || `Bun server responded with ${response.status}`,
+      body.details || body.error || text
+    );
+  } catch {
+    return new BunServerError(
+      response.status,
+      `Bun server responded with ${response.status}`,
+      text || response.statusText
+    );
+  }
+}
+
+// Fetch from the Bun server with the service token; network failures become a 502
+export async function bunFetch(path: string, init?: RequestInit, user?: DashboardUser): Promise<Response> {
+  const headers = new Headers(init?.headers);
+  Object.entries(serviceHeaders(user)).forEach(([name, value]) => headers.set(name, value));
+
+  let response: Response;
+  try {
+    response = await fetch(`${BUN_SERVER}${path}`, { ...init, headers, cache: 'no-store' });
+  } catch (error) {
+    throw new BunServerError(
+      502,
+      'Bun server unavailable',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (!response.ok) {
+    throw await toBunServerError(response);
+  }
+  return response;
+}
+
+// Typed JSON request to the Bun server
+export async function bunJson<T>(path: string, init?: RequestInit, user?: DashboardUser): Promise<T> {
+  const response = await bunFetch(path, init, user);
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType?.includes('application/json')) {
+    throw new BunServerError(502, 'Invalid Bun server response', `Expected JSON but got ${contentType}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+// Headers passed through in each direction by proxyToBunServer
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'range'];
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-disposition',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'cache-control'
+];
+
+function pickHeaders(headers: Headers, names: string[]) {
+  return Object.fromEntries(
+    names.flatMap(name => {
+      const value = headers.get(name);
+      return value ? [[name, value]] : [];
+    })
+  );
+}
+
+// Forward a dashboard API request to the same-named Bun route on behalf of
+// `user`, keeping the method, query string, body and the headers above
+export async function proxyToBunServer(
+  request: Request,
+  path: string,
+  fallbackError: string,
+  user: DashboardUser
+) {
+  try {
+    const { search } = new URL(request.url);
+    const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+    const response = await bunFetch(`${path}${search}`, {
+      method: request.method,
+      headers: pickHeaders(request.headers, FORWARDED_REQUEST_HEADERS),
+      body: hasBody ? await request.arrayBuffer() : undefined
+    }, user);
+
+    return new Response(response.status === 204 ? null : response.body, {
+      status: response.status,
+      // Lower case, like the picked headers, so a forwarded Content-Type replaces it
+      headers: {
+        'content-type': 'application/json',
+        ...pickHeaders(response.headers, FORWARDED_RESPONSE_HEADERS)
+      }
+    });
+  } catch (error) {
+    console.error(`Error proxying ${request.method} ${path}:`, error);
+    return errorResponse(error, fallbackError);
+  }
+}
@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Optional single sign-on through any OpenID Connect provider. Users signing in
+// this way are created on first login with the Bun server's OIDC_DEFAULT_ROLE.
+const OIDC_ISSUER = process.env.OIDC_ISSUER;
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID;
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET;
+
+export const OIDC_STATE_COOKIE = 'oidc_state';
+export const OIDC_VERIFIER_COOKIE = 'oidc_verifier';
+
+interface OidcConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  username: string;
+}
+
+export function isOidcEnabled() {
+  return !!(OIDC_ISSUER && OIDC_CLIENT_ID && OIDC_CLIENT_SECRET);
+}
+
+async function discover(): Promise<OidcConfiguration> {
+  const response = await fetch(
+    `${OIDC_ISSUER!.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    { next: { revalidate: 3600 } }
+  );
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function callbackUrl(origin: string) {
+  return `${(process.env.PUBLIC_URL || origin).replace(/\/$/, '')}/api/auth/oidc/callback`;
+}
+
+// Authorization code flow with PKCE; the state and verifier go in short-lived cookies
+export async function createAuthorizationRequest(redirectUri: string) {
+  const { authorization_endpoint } = await discover();
+  const state = randomBytes(16).toString('base64url');
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID!,
+    redirect_uri: redirectUri,
+    scope: 'openid profile email',
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256'
+  }).toString();
+
+  return { url, state, verifier };
+}
+
+// Exchange the code and read the identity from the userinfo endpoint, so the
+// ID token never needs to be verified locally
+export async function completeAuthorization(code: string, verifier: string, redirectUri: string): Promise<OidcIdentity> {
+  const { token_endpoint, userinfo_endpoint } = await discover();
+
+  const tokenResponse = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${btoa(`${OIDC_CLIENT_ID}:${OIDC_CLIENT_SECRET}`)}`
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: verifier
+    })
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed: ${tokenResponse.status}`);
+  }
+  const { access_token } = await tokenResponse.json();
+
+  const userinfoResponse = await fetch(userinfo_endpoint, {
+    headers: { 'Authorization': `Bearer ${access_token}` }
+  });
+  if (!userinfoResponse.ok) {
+    throw new Error(`OIDC userinfo request failed: ${userinfoResponse.status}`);
+  }
+  const userinfo = await userinfoResponse.json();
+
+  return {
+    subject: userinfo.sub,
+    username: userinfo.preferred_username || userinfo.email || userinfo.sub
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { sameOriginPath } from "./redirect";
+
+const ORIGIN = 'https://dashboard.example.com';
+
+describe('sameOriginPath', () => {
+  test('keeps paths on this site', () => {
+    expect(sameOriginPath('/calls?page=2#top', ORIGIN)).toBe('/calls?page=2#top');
+    expect(sameOriginPath(`${ORIGIN}/audit`, ORIGIN)).toBe('/audit');
+  });
+
+  test('falls back to the home page without a path', () => {
+    expect(sameOriginPath(null, ORIGIN)).toBe('/');
+    expect(sameOriginPath('', ORIGIN)).toBe('/');
+  });
+
+  test('rejects other sites however they are written', () => {
+    for (const next of [
+      'https://evil.example/calls',
+      '//evil.example',
+      '/\\evil.example',
+      '\\\\evil.example',
+      '/\t/evil.example',
+      'javascript:alert(1)',
+      'http://['
+    ]) {
+      expect(sameOriginPath(next, ORIGIN)).toBe('/');
+    }
+  });
+});
@@ -0,0 +1,13 @@
+// Where to go after signing in: `next` when it is a path on this site, else "/".
+// Resolving it against our own origin also catches forms that browsers read as
+// another host, such as "//evil.example" and "/\evil.example".
+export function sameOriginPath(next: string | null, origin: string) {
+  if (!next) return '/';
+
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+}
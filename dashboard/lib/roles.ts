@@ -0,0 +1,14 @@
+// Mirrors server/roles.ts so client components can check permissions
+export type Role = 'viewer' | 'reviewer' | 'admin';
+
+export interface DashboardUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+const ROLES: Role[] = ['viewer', 'reviewer', 'admin'];
+
+export function hasRole(user: DashboardUser | null | undefined, required: Role) {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+}
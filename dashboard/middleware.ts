@@ -1,35 +1,50 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { BUN_SERVER, serviceHeaders } from '@/lib/bunServer'
+import { SESSION_COOKIE, getSessionUser } from '@/lib/auth'
 
-export function middleware(request: NextRequest) {
-  if (request.nextUrl.pathname.startsWith('/api/ws')) {
-    const bunServer = process.env.NEXT_PUBLIC_BUN_SERVER || 'http://bun-server:3902'
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  if (pathname.startsWith('/api/ws')) {
+    const bunServer = process.env.NEXT_PUBLIC_BUN_SERVER || BUN_SERVER
     const bunServerUrl = new URL(bunServer)
     const wsUrl = bunServerUrl.toString().replace('http:', 'ws:').replace('https:', 'wss:')
 
+    // The Bun server trusts the role we forward, so check the session first
+    const user = await getSessionUser(request.cookies.get(SESSION_COOKIE)?.value).catch(() => null)
+    if (!user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
     console.log('Proxying WebSocket request to:', wsUrl)
 
+    const headers = new Headers(request.headers)
+    Object.entries(serviceHeaders(user)).forEach(([name, value]) => headers.set(name, value))
+
     // For WebSocket upgrade requests
     if (request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
       const url = new URL('/ws', wsUrl)
       console.log('Upgrading WebSocket connection to:', url.toString())
 
-      return NextResponse.rewrite(url, {
-        headers: {
-          'Upgrade': 'websocket',
-          'Connection': 'Upgrade',
-          'Sec-WebSocket-Key': request.headers.get('sec-websocket-key') || '',
-          'Sec-WebSocket-Version': request.headers.get('sec-websocket-version') || '',
-          'Sec-WebSocket-Protocol': request.headers.get('sec-websocket-protocol') || ''
-        }
-      })
+      return NextResponse.rewrite(url, { request: { headers } })
     }
 
     // For regular HTTP requests (like CORS preflight)
-    return NextResponse.rewrite(new URL('/ws', wsUrl))
+    return NextResponse.rewrite(new URL('/ws', wsUrl), { request: { headers } })
+  }
+
+  // Pages need a session cookie; it is validated when the page loads its data
+  if (!request.cookies.has(SESSION_COOKIE)) {
+    const loginUrl = new URL('/login', request.url)
+    if (pathname !== '/') {
+      loginUrl.searchParams.set('next', pathname + request.nextUrl.search)
+    }
+    return NextResponse.redirect(loginUrl)
   }
 }
 
 export const config = {
-  matcher: '/api/ws'
+  // API routes check the session themselves and answer with JSON errors
+  matcher: ['/api/ws', '/((?!api|login|_next/static|_next/image|favicon.ico|serviceWorker.js).*)']
 }
@@ -1,13 +1,16 @@
+// Same default as BUN_SERVER in lib/bunServer.ts
+const BUN_SERVER = process.env.BUN_SERVER || 'http://localhost:3902'
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   env: {
-    NEXT_PUBLIC_BUN_SERVER: process.env.BUN_SERVER || 'http://bun-server:3902',
+    NEXT_PUBLIC_BUN_SERVER: BUN_SERVER,
   },
   async rewrites() {
     return [
       {
         source: '/api/ws',
-        destination: `${process.env.BUN_SERVER || 'http://bun-server:3902'}/ws`,
+        destination: `${BUN_SERVER}/ws`,
       },
     ]
   },
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import type { CallVolume } from "./types";
+import { ANALYTICS_METRICS } from "./analytics";
+
+const volume = (range: Parameters<typeof ANALYTICS_METRICS.volume>[0]) =>
+  ANALYTICS_METRICS.volume(range) as CallVolume;
+
+describe('volume', () => {
+  test('fills every day of a bounded range', () => {
+    const { byDay } = volume({ createdFrom: '1999-01-30', createdTo: '1999-02-02' });
+    expect(byDay).toEqual([
+      { day: '1999-01-30', calls: 0 },
+      { day: '1999-01-31', calls: 0 },
+      { day: '1999-02-01', calls: 0 },
+      { day: '1999-02-02', calls: 0 }
+    ]);
+  });
+
+  test('does not fill an open-ended range beyond the days with calls', () => {
+    expect(volume({ createdFrom: '0001-01-01', createdTo: '0001-12-31' }).byDay).toHaveLength(365);
+    expect(volume({ createdFrom: '0001-01-01' }).byDay[0]?.day).not.toBe('0001-01-01');
+    expect(volume({ createdTo: '0001-12-31' }).byDay).toEqual([]);
+  });
+});
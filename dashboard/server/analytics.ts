@@ -0,0 +1,46 @@
+import type { AnalyticsRange, CallVolume } from "./types";
+import {
+  getCallVolume,
+  getDroppedCalls,
+  getDurationStats,
+  getTalkRatio,
+  getTopDestinations,
+  getTranscriptionStats
+} from "./db";
+import { maskPhoneNumber } from "./masking";
+
+const TOP_DESTINATIONS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days without calls are filled in with 0, so the chart has no gaps. Only a
+// range with both ends (at most MAX_ANALYTICS_DAYS long) is filled edge to edge;
+// an open-ended one is filled between its first and last day with calls.
+function withEmptyDays(volume: CallVolume, range: AnalyticsRange): CallVolume {
+  const bounded = range.createdFrom && range.createdTo;
+  const first = bounded ? range.createdFrom : volume.byDay[0]?.day;
+  const last = bounded ? range.createdTo : volume.byDay[volume.byDay.length - 1]?.day;
+  if (!first || !last) {
+    return volume;
+  }
+
+  const counts = new Map(volume.byDay.map(row => [row.day, row.calls]));
+  const byDay = [];
+  for (let time = Date.parse(first); time <= Date.parse(last); time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    byDay.push({ day, calls: counts.get(day) ?? 0 });
+  }
+
+  return { ...volume, byDay };
+}
+
+// Each metric is one aggregate query, served at GET /analytics/<name>
+export const ANALYTICS_METRICS: Record<string, (range: AnalyticsRange) => unknown> = {
+  volume: range => withEmptyDays(getCallVolume(range), range),
+  durations: getDurationStats,
+  'talk-ratio': getTalkRatio,
+  // Grouped on the full number, so two rows can look alike once masked
+  destinations: range => getTopDestinations(range, TOP_DESTINATIONS)
+    .map(row => ({ ...row, number: maskPhoneNumber(row.number) })),
+  transcription: getTranscriptionStats,
+  dropped: getDroppedCalls
+};
@@ -0,0 +1,152 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import type { CallRecord } from "./types";
+import { getCallArchive, listCallArchives, saveCalls } from "./db";
+
+const RAW_AUDIO = 'RIFF raw recording';
+const REDACTED_AUDIO = 'RIFF redacted recording';
+
+const objects = new Map<string, { body: Uint8Array; type: string }>();
+let twilioRequests: string[] = [];
+
+// One local server plays both MinIO (path-style /calls/<key>) and the Twilio
+// APIs the archive downloads from and deletes on
+const stub = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const { pathname } = new URL(req.url);
+
+    if (pathname.startsWith('/calls/')) {
+      const key = decodeURIComponent(pathname.slice('/calls/'.length));
+      switch (req.method) {
+        case 'PUT': {
+          const body = new Uint8Array(await req.arrayBuffer());
+          // Lose the last byte of one call's uploads, as a faulty store might
+          objects.set(key, {
+            body: key.includes('GTcorrupt') ? body.slice(0, -1) : body,
+            type: req.headers.get('content-type') || ''
+          });
+          return new Response(null, { status: 200, headers: { ETag: '"stub"' } });
+        }
+        case 'HEAD':
+        case 'GET': {
+          const object = objects.get(key);
+          if (!object) return new Response(null, { status: 404 });
+          return new Response(req.method === 'HEAD' ? null : object.body, {
+            headers: { 'Content-Type': object.type, 'Content-Length': String(object.body.byteLength) }
+          });
+        }
+        case 'DELETE':
+          objects.delete(key);
+          return new Response(null, { status: 204 });
+      }
+    }
+
+    twilioRequests.push(`${req.method} ${pathname}`);
+    if (pathname.endsWith('.wav')) {
+      return new Response(RAW_AUDIO, { headers: { 'Content-Type': 'audio/wav' } });
+    }
+    if (pathname.startsWith('/media/')) {
+      return new Response(REDACTED_AUDIO, { headers: { 'Content-Type': 'audio/wav' } });
+    }
+    if (req.method === 'DELETE') {
+      return new Response(null, { status: 204 });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+});
+
+// Twilio's hosts are fixed in twilio.ts, so send them to the stub instead
+const realFetch = globalThis.fetch;
+const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(((input: string | URL | Request, init?: RequestInit) => {
+  const url = new URL(input instanceof Request ? input.url : input);
+  if (url.hostname.endsWith('twilio.com')) {
+    return realFetch(stub.url.origin + url.pathname + url.search, init);
+  }
+  return realFetch(input, init);
+}) as typeof fetch);
+
+// archive.ts picks its storage driver when imported
+Bun.env.ARCHIVE_STORAGE = 's3';
+Bun.env.ARCHIVE_DELETE_TWILIO = 'true';
+Bun.env.S3_BUCKET = 'calls';
+Bun.env.S3_ENDPOINT = stub.url.origin;
+Bun.env.S3_REGION = 'us-east-1';
+Bun.env.S3_ACCESS_KEY_ID = 'minio';
+Bun.env.S3_SECRET_ACCESS_KEY = 'minio-secret';
+Bun.env.S3_PREFIX = 'archive';
+const { archiveCall, readArchivedAudio } = await import("./archive");
+
+afterAll(() => {
+  fetchSpy.mockRestore();
+  stub.stop(true);
+});
+
+beforeEach(() => {
+  twilioRequests = [];
+});
+
+function saveTestCall(id: string, recordingSid: string) {
+  saveCalls({
+    id,
+    callSid: `CA${id}`,
+    from: '+14155550100',
+    to: '+14155550199',
+    from_number: '+14155550100',
+    to_number: '+14155550199',
+    duration: '42',
+    recordingUrl: '',
+    piiUrl: `${stub.url.origin}/media/${id}`,
+    createdAt: '',
+    transcript: []
+  } as CallRecord, id, recordingSid);
+}
+
+const text = async (result: Awaited<ReturnType<typeof readArchivedAudio>>) =>
+  result?.ok ? await result.data.text() : null;
+
+describe('archiveCall with S3-compatible storage', () => {
+  test('stores both variants with their checksums and then deletes the Twilio copies', async () => {
+    saveTestCall('GTarchived', 'REarchived');
+    await archiveCall('GTarchived');
+
+    const raw = getCallArchive('GTarchived', 'raw');
+    expect(raw).toMatchObject({
+      driver: 's3',
+      content_type: 'audio/wav',
+      size: RAW_AUDIO.length,
+      sha256: new Bun.CryptoHasher('sha256').update(RAW_AUDIO).digest('hex')
+    });
+    expect(raw!.object_key).toMatch(/^calls\/\d{4}\/\d{2}\/GTarchived\/raw\.wav$/);
+    expect(new TextDecoder().decode(objects.get(`archive/${raw!.object_key}`)!.body)).toBe(RAW_AUDIO);
+    expect(objects.has(`archive/${getCallArchive('GTarchived', 'redacted')!.object_key}`)).toBe(true);
+
+    expect(twilioRequests).toContain('DELETE /2010-04-01/Accounts/ACtest/Recordings/REarchived.json');
+    expect(twilioRequests).toContain('DELETE /v2/Transcripts/GTarchived');
+    expect(listCallArchives('GTarchived').every(entry => entry.twilio_deleted_at)).toBe(true);
+  });
+
+  test('serves archived audio that still matches its checksum', async () => {
+    expect(await text(await readArchivedAudio('GTarchived', 'raw'))).toBe(RAW_AUDIO);
+    expect(await text(await readArchivedAudio('GTarchived', 'redacted'))).toBe(REDACTED_AUDIO);
+  });
+
+  test('does not serve archived audio that changed in storage', async () => {
+    const key = `archive/${getCallArchive('GTarchived', 'raw')!.object_key}`;
+    objects.set(key, { body: new TextEncoder().encode('RIFF something else'), type: 'audio/wav' });
+
+    expect(await readArchivedAudio('GTarchived', 'raw')).toBeNull();
+  });
+
+  test('keeps the Twilio copies when an upload does not verify', async () => {
+    saveTestCall('GTcorrupt', 'REcorrupt');
+    await archiveCall('GTcorrupt');
+
+    expect(twilioRequests.filter(request => request.startsWith('DELETE'))).toEqual([]);
+
+    // The first variant checked is dropped so the next sweep archives it again
+    const remaining = listCallArchives('GTcorrupt');
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].twilio_deleted_at).toBeNull();
+    expect([...objects.keys()].filter(key => key.includes('/GTcorrupt/'))).toEqual([`archive/${remaining[0].object_key}`]);
+  });
+});
@@ -0,0 +1,241 @@
+import type { AudioVariant } from "./types";
+import type { CallArchiveEntry } from "./db";
+import {
+  deleteCallArchives,
+  getCallArchive,
+  getCallMediaSource,
+  getCallsToArchive,
+  getLegalHold,
+  listCallArchives,
+  markTwilioCopyDeleted,
+  saveCallArchive
+} from "./db";
+import type { MediaResult } from "./media";
+import { fetchTwilioAudio } from "./media";
+import type { StorageDriver } from "./storage";
+import { getStorageDriver } from "./storage";
+import { deleteRecording, deleteTranscript } from "./twilio";
+
+const ARCHIVE_INTERVAL_MS = parseInt(Bun.env.ARCHIVE_INTERVAL_MINUTES || "60") * 60 * 1000;
+const ARCHIVE_DELETE_TWILIO = Bun.env.ARCHIVE_DELETE_TWILIO === 'true';
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg'
+};
+
+// ARCHIVE_STORAGE names the driver; without it nothing is archived
+function loadStorage(): StorageDriver | null {
+  const name = Bun.env.ARCHIVE_STORAGE;
+  if (!name) return null;
+
+  try {
+    return getStorageDriver(name);
+  } catch (error) {
+    console.error('Invalid archive storage:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+const storage = loadStorage();
+
+// e.g. calls/2025/01/GT.../raw.wav, grouped by the month the call was saved
+function objectKey(callId: string, createdAt: string, variant: AudioVariant, contentType: string) {
+  const [year, month] = createdAt.split('-');
+  const extension = EXTENSIONS[contentType.split(';')[0].trim()] ?? 'bin';
+  return `calls/${year}/${month}/${callId}/${variant}.${extension}`;
+}
+
+function sha256(data: ArrayBuffer) {
+  return new Bun.CryptoHasher('sha256').update(data).digest('hex');
+}
+
+// The stored object's bytes, if they are still exactly what was archived
+async function readVerified(entry: CallArchiveEntry): Promise<ArrayBuffer | null> {
+  const data = await storage!.get(entry.object_key);
+  if (!data) {
+    console.warn('⚠️ Archived audio is missing from storage:', { callId: entry.call_id, variant: entry.variant, key: entry.object_key });
+    return null;
+  }
+
+  const buffer = await data.arrayBuffer();
+  if (buffer.byteLength !== entry.size || sha256(buffer) !== entry.sha256) {
+    console.warn('⚠️ Archived audio does not match its checksum:', {
+      callId: entry.call_id,
+      variant: entry.variant,
+      key: entry.object_key,
+      size: buffer.byteLength,
+      expectedSize: entry.size
+    });
+    return null;
+  }
+  return buffer;
+}
+
+async function archiveVariant(callId: string, createdAt: string, variant: AudioVariant) {
+  const media = await fetchTwilioAudio(callId, variant);
+  if (!media.ok) {
+    throw new Error(`${media.error}: ${media.details}`);
+  }
+
+  const data = await media.data.arrayBuffer();
+  const key = objectKey(callId, createdAt, variant, media.contentType);
+  await storage!.put(key, new Blob([data], { type: media.contentType }), media.contentType);
+
+  const entry = {
+    call_id: callId,
+    variant,
+    driver: storage!.name,
+    object_key: key,
+    content_type: media.contentType,
+    size: data.byteLength,
+    sha256: sha256(data)
+  };
+  saveCallArchive(entry);
+
+  console.log('📦 Audio archived:', { callId, variant, key, size: entry.size });
+}
+
+// Only once every variant is safely in our storage, and never for held calls.
+// Each object is read back and checked first; one that doesn't match is
+// dropped so the next sweep archives it again while Twilio still has it.
+async function deleteTwilioCopies(callId: string, transcriptSid: string, recordingSid: string | null) {
+  if (getLegalHold(callId)) return;
+
+  for (const entry of listCallArchives(callId)) {
+    if (entry.twilio_deleted_at) continue;
+
+    if (!await readVerified(entry)) {
+      await deleteArchivedAudio(callId, entry.variant);
+      throw new Error(`Archived ${entry.variant} audio failed verification`);
+    }
+
+    if (entry.variant === 'raw' && recordingSid) {
+      await deleteRecording(recordingSid);
+    } else if (entry.variant === 'redacted') {
+      await deleteTranscript(transcriptSid);
+    }
+    markTwilioCopyDeleted(callId, entry.variant);
+  }
+}
+
+async function runArchive(callId: string) {
+  const source = getCallMediaSource(callId);
+  if (!source) return;
+
+  const variants: AudioVariant[] = ['redacted'];
+  if (source.recording_sid && !source.recording_purged_at) {
+    variants.push('raw');
+  }
+
+  let failed = 0;
+  for (const variant of variants) {
+    if (getCallArchive(callId, variant)) continue;
+    try {
+      await archiveVariant(callId, source.created_at, variant);
+    } catch (error) {
+      failed++;
+      console.error('Archiving audio failed:', {
+        callId,
+        variant,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  if (ARCHIVE_DELETE_TWILIO && failed === 0) {
+    try {
+      await deleteTwilioCopies(callId, source.transcript_sid, source.recording_sid);
+    } catch (error) {
+      console.error('Deleting archived Twilio copies failed:', {
+        callId,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+}
+
+const archiving = new Map<string, Promise<void>>();
+
+// Safe to call repeatedly: variants already archived are skipped and a call
+// that is being archived isn't started twice
+export function archiveCall(callId: string) {
+  if (!storage) return Promise.resolve();
+
+  let pending = archiving.get(callId);
+  if (!pending) {
+    pending = runArchive(callId).finally(() => archiving.delete(callId));
+    archiving.set(callId, pending);
+  }
+  return pending;
+}
+
+// The archived copy of a call's audio, or null to fall back to Twilio
+export async function readArchivedAudio(callId: string, variant: AudioVariant): Promise<MediaResult | null> {
+  const entry = getCallArchive(callId, variant);
+  if (!entry) return null;
+
+  if (entry.driver !== storage?.name) {
+    console.warn('⚠️ Archived audio is in storage that is not configured:', { callId, variant, driver: entry.driver });
+    return null;
+  }
+
+  const data = await readVerified(entry);
+  if (!data) return null;
+
+  return { ok: true, data: new Blob([data], { type: entry.content_type }), contentType: entry.content_type };
+}
+
+// Rows go first so a storage failure leaves an orphaned object rather than a
+// row pointing at nothing
+export async function deleteArchivedAudio(callId: string, variant?: AudioVariant) {
+  const entries = deleteCallArchives(callId, variant);
+
+  for (const entry of entries) {
+    if (entry.driver !== storage?.name) continue;
+    try {
+      await storage.delete(entry.object_key);
+    } catch (error) {
+      console.error('Deleting archived audio failed:', {
+        callId,
+        key: entry.object_key,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+}
+
+let isRunning = false;
+
+// Catches up on calls whose archiving failed or that were saved before
+// archiving was turned on
+async function runArchiveSweep() {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    for (const callId of getCallsToArchive()) {
+      await archiveCall(callId);
+    }
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startArchiveScheduler() {
+  if (!storage) {
+    console.log('📦 No archive storage configured; audio stays with Twilio');
+    return;
+  }
+
+  console.log('📦 Archiving call audio:', {
+    driver: storage.name,
+    deleteTwilioCopies: ARCHIVE_DELETE_TWILIO,
+    intervalMinutes: ARCHIVE_INTERVAL_MS / 60000
+  });
+
+  runArchiveSweep();
+  setInterval(runArchiveSweep, ARCHIVE_INTERVAL_MS);
+}
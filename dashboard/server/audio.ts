@@ -0,0 +1,196 @@
+import { existsSync, mkdirSync, renameSync, unlinkSync } from "fs";
+import { join } from "path";
+import type { AudioTrack, AudioVariant, Speaker } from "./types";
+import type { AudioCacheEntry } from "./db";
+import {
+  deleteAudioCacheEntries,
+  getAudioCacheEntry,
+  listAudioCacheEntries,
+  saveAudioCacheEntry
+} from "./db";
+import { fetchTwilioAudio } from "./media";
+import { readArchivedAudio } from "./archive";
+import { extractWavChannel, parseWav } from "./wav";
+
+const AUDIO_CACHE_DIR = Bun.env.AUDIO_CACHE_DIR || 'data/audio-cache';
+const AUDIO_CACHE_MAX_BYTES = parseInt(Bun.env.AUDIO_CACHE_MAX_MB || "500") * 1024 * 1024;
+
+mkdirSync(AUDIO_CACHE_DIR, { recursive: true });
+
+export const AUDIO_VARIANTS: AudioVariant[] = ['redacted', 'raw'];
+export const AUDIO_TRACKS: AudioTrack[] = ['mixed', 'customer', 'assistant'];
+
+// Same mapping as the transcript: media_channel 1 (the first channel) is the customer
+const SPEAKER_CHANNELS: Record<Speaker, number> = { customer: 0, assistant: 1 };
+
+export type AudioResult =
+  | { ok: true; entry: AudioCacheEntry }
+  | { ok: false; status: number; error: string; details: string };
+
+function removeFile(path: string) {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+// Drop least recently used files until the cache fits, keeping the one just added
+function evictAudio(keep: AudioCacheEntry) {
+  const entries = listAudioCacheEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const entry of entries) {
+    if (total <= AUDIO_CACHE_MAX_BYTES) break;
+    if (entry.call_id === keep.call_id && entry.variant === keep.variant && entry.track === keep.track) continue;
+
+    deleteAudioCacheEntries(entry.call_id, entry.variant, entry.track);
+    removeFile(entry.path);
+    total -= entry.size;
+  }
+}
+
+// Prefer our own archived copy, so playback keeps working once Twilio's is gone
+async function downloadAudio(callId: string, variant: AudioVariant): Promise<AudioResult> {
+  const media = await readArchivedAudio(callId, variant) ?? await fetchTwilioAudio(callId, variant);
+  if (!media.ok) {
+    return media;
+  }
+
+  return { ok: true, entry: await cacheAudio(callId, variant, 'mixed', media.data, media.contentType) };
+}
+
+async function cacheAudio(callId: string, variant: AudioVariant, track: AudioTrack, data: Blob | Uint8Array, contentType: string) {
+  // Write to a temporary name first so a failed download never looks cached
+  const path = join(AUDIO_CACHE_DIR, track === 'mixed' ? `${callId}-${variant}` : `${callId}-${variant}-${track}`);
+  const tempPath = `${path}.${Date.now()}.tmp`;
+  const size = await Bun.write(tempPath, data);
+  renameSync(tempPath, path);
+
+  const entry: AudioCacheEntry = {
+    call_id: callId,
+    variant,
+    track,
+    path,
+    content_type: contentType,
+    size
+  };
+  saveAudioCacheEntry(entry);
+  evictAudio(entry);
+
+  console.log('💾 Audio cached:', { callId, variant, track, size });
+  return entry;
+}
+
+// A speaker's track is cut from the dual-channel file, which is cached on the way
+async function splitAudio(callId: string, variant: AudioVariant, speaker: Speaker): Promise<AudioResult> {
+  const mixed = await getAudio(callId, variant);
+  if (!mixed.ok) {
+    return mixed;
+  }
+
+  let track: Uint8Array;
+  try {
+    const wav = parseWav(await Bun.file(mixed.entry.path).arrayBuffer());
+    if (wav.channels < 2) {
+      return { ok: false, status: 422, error: 'Track unavailable', details: 'This recording has a single channel' };
+    }
+    track = extractWavChannel(wav, SPEAKER_CHANNELS[speaker]);
+  } catch (error) {
+    return {
+      ok: false,
+      status: 422,
+      error: 'Track unavailable',
+      details: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  return { ok: true, entry: await cacheAudio(callId, variant, speaker, track, 'audio/wav') };
+}
+
+// Concurrent requests for the same audio share one download
+const downloads = new Map<string, Promise<AudioResult>>();
+
+export async function getAudio(callId: string, variant: AudioVariant, track: AudioTrack = 'mixed'): Promise<AudioResult> {
+  const cached = getAudioCacheEntry(callId, variant, track);
+  if (cached && existsSync(cached.path)) {
+    return { ok: true, entry: cached };
+  }
+
+  const key = `${callId}:${variant}:${track}`;
+  let download = downloads.get(key);
+  if (!download) {
+    download = (track === 'mixed' ? downloadAudio(callId, variant) : splitAudio(callId, variant, track))
+      .finally(() => downloads.delete(key));
+    downloads.set(key, download);
+  }
+  return download;
+}
+
+// Call this whenever the audio behind a cache entry is deleted
+export function removeCachedAudio(callId: string, variant?: AudioVariant) {
+  deleteAudioCacheEntries(callId, variant).forEach(entry => removeFile(entry.path));
+}
+
+// Parses a single "bytes=start-end" range; multiple ranges aren't supported
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2]));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+// Serve a cached file, honouring Range so the browser can seek
+export function audioResponse(
+  req: Request,
+  entry: AudioCacheEntry,
+  options: { download?: boolean; headers?: Record<string, string> } = {}
+) {
+  const file = Bun.file(entry.path);
+  const size = file.size;
+  const headers: Record<string, string> = {
+    'Content-Type': entry.content_type,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600',
+    ...options.headers
+  };
+
+  if (options.download) {
+    const extension = entry.content_type.includes('mpeg') ? 'mp3' : 'wav';
+    const name = entry.track === 'mixed' ? `${entry.call_id}-${entry.variant}` : `${entry.call_id}-${entry.variant}-${entry.track}`;
+    headers['Content-Disposition'] = `attachment; filename="${name}.${extension}"`;
+  }
+
+  const rangeHeader = req.headers.get('range');
+  if (!rangeHeader) {
+    return new Response(file, { headers: { ...headers, 'Content-Length': String(size) } });
+  }
+
+  const range = parseRange(rangeHeader, size);
+  if (!range) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${size}` }
+    });
+  }
+
+  return new Response(file.slice(range.start, range.end + 1), {
+    status: 206,
+    headers: {
+      ...headers,
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+      'Content-Length': String(range.end - range.start + 1)
+    }
+  });
+}
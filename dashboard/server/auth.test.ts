@@ -0,0 +1,16 @@
+import { describe, expect, test } from "bun:test";
+import { startTestServer } from "./test-server";
+
+describe('server startup', () => {
+  test('exits when OIDC_DEFAULT_ROLE is not a role', async () => {
+    await expect(startTestServer({ OIDC_DEFAULT_ROLE: 'reviewr' })).rejects.toThrow('Bun server exited with code 1');
+  });
+
+  test('starts with a valid OIDC_DEFAULT_ROLE', async () => {
+    const server = await startTestServer({ OIDC_DEFAULT_ROLE: 'reviewer' });
+    const response = await fetch(`${server.url}/health`);
+    await server.stop();
+
+    expect(response.status).toBe(200);
+  });
+});
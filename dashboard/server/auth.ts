@@ -0,0 +1,115 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { DashboardUser, Role } from "./types";
+import {
+  countUsers,
+  createUserSession,
+  deleteUserSession,
+  findOrCreateOidcUser,
+  getUserBySession,
+  getUserByUsername,
+  saveUser
+} from "./db";
+import { ROLES, isRole } from "./roles";
+
+// Shared secret between the Next.js dashboard and this server. Every API route
+// except Twilio webhooks and /health requires it.
+export const BUN_SERVICE_TOKEN = Bun.env.BUN_SERVICE_TOKEN!;
+
+if (!BUN_SERVICE_TOKEN) {
+  console.error("Missing BUN_SERVICE_TOKEN");
+  process.exit(1);
+}
+
+const SESSION_MAX_AGE_HOURS = parseInt(Bun.env.SESSION_MAX_AGE_HOURS || "12");
+// A role no permission check knows would lock every new single sign-on user out
+function loadOidcDefaultRole(): Role {
+  const role = Bun.env.OIDC_DEFAULT_ROLE || 'viewer';
+  if (!isRole(role)) {
+    console.error(`Invalid OIDC_DEFAULT_ROLE "${role}", expected one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+  return role;
+}
+
+const OIDC_DEFAULT_ROLE = loadOidcDefaultRole();
+
+export function isServiceRequest(req: Request) {
+  const header = req.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  const expected = Buffer.from(BUN_SERVICE_TOKEN);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// The dashboard forwards the signed-in user's role; it is only trusted on
+// requests that carry the service token
+export function getRequestRole(req: Request): Role | null {
+  const role = req.headers.get('x-dashboard-role');
+  return isRole(role) ? role : null;
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function startSession(user: DashboardUser) {
+  const token = randomBytes(32).toString('base64url');
+  createUserSession(hashToken(token), user.id, SESSION_MAX_AGE_HOURS);
+  return { token, user, maxAgeSeconds: SESSION_MAX_AGE_HOURS * 60 * 60 };
+}
+
+export async function login(username: string, password: string) {
+  const user = getUserByUsername(username);
+
+  // Verify against a dummy hash for unknown users so timing doesn't reveal them
+  const hash = user?.password_hash ?? await Bun.password.hash('invalid');
+  const isValid = await Bun.password.verify(password, hash);
+
+  if (!user || !user.password_hash || !isValid) {
+    return null;
+  }
+
+  return startSession({ id: user.id, username: user.username, role: user.role });
+}
+
+export function loginWithOidc(subject: string, username: string) {
+  const user = findOrCreateOidcUser(subject, username, OIDC_DEFAULT_ROLE);
+  return user ? startSession(user) : null;
+}
+
+export function getSessionUser(token: string) {
+  return getUserBySession(hashToken(token));
+}
+
+export function logout(token: string) {
+  deleteUserSession(hashToken(token));
+}
+
+export async function setUserPassword(username: string, password: string, role: Role) {
+  saveUser({
+    username,
+    passwordHash: await Bun.password.hash(password),
+    role
+  });
+}
+
+// Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD on an empty database
+export async function bootstrapAdmin() {
+  const username = Bun.env.ADMIN_USERNAME;
+  const password = Bun.env.ADMIN_PASSWORD;
+
+  if (countUsers() > 0 || !username || !password) {
+    return;
+  }
+
+  await setUserPassword(username, password, 'admin');
+  console.log('👤 Created initial admin user:', username);
+}
+
+// The signed-in dashboard user a request is made for, as forwarded by the dashboard
+export function getRequestUser(req: Request) {
+  const username = req.headers.get('x-dashboard-user');
+  const role = getRequestRole(req);
+  return username && role ? { username, role } : null;
+}
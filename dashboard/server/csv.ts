@@ -0,0 +1,5 @@
+// RFC 4180 CSV: every cell quoted, embedded quotes doubled
+export function toCsv(headers: string[], rows: unknown[][]) {
+  const escape = (cell: unknown) => `"${String(cell ?? '').replace(/"/g, '""')}"`;
+  return [headers, ...rows].map(row => row.map(escape).join(',')).join('\r\n');
+}
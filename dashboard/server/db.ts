@@ -1,5 +1,38 @@
 import { Database } from "bun:sqlite";
-import type { CallRecord } from "./types";
+import type {
+  AnalyticsRange,
+  ArchivedObject,
+  AudioTrack,
+  AudioVariant,
+  AuditAction,
+  AuditEvent,
+  AuditFilters,
+  CallFilters,
+  CallInsights,
+  CallMetric,
+  CallMetrics,
+  CallRecord,
+  CallSort,
+  CallVolume,
+  DashboardUser,
+  DeleteCallResult,
+  DestinationCount,
+  DroppedCalls,
+  DurationStats,
+  LegalHold,
+  Role,
+  CallSession,
+  CallStatus,
+  JobState,
+  RecordingJob,
+  SearchHighlight,
+  Speaker,
+  TalkRatio,
+  TranscriptLine,
+  TranscriptionStats,
+  TranscriptRedaction,
+  VoiceflowTurn
+} from "./types";
 
 const db = new Database("data/calls.sqlite");
 
@@ -13,6 +46,7 @@ db.run(`
     recording_url TEXT NOT NULL,
     pii_url TEXT NOT NULL,
     transcript_sid TEXT NOT NULL,
+    call_sid TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
 `);
@@ -22,76 +56,541 @@ db.run(`
     call_id TEXT NOT NULL,
     speaker TEXT NOT NULL,
     text TEXT NOT NULL,
+    sentence_index INTEGER,
+    start_time REAL,
+    end_time REAL,
+    confidence REAL,
     FOREIGN KEY(call_id) REFERENCES calls(id) ON DELETE CASCADE
   );
 `);
 
+// Durable queue for the recording -> transcript -> save pipeline
+db.run(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    call_sid TEXT NOT NULL,
+    recording_sid TEXT NOT NULL UNIQUE,
+    recording_url TEXT NOT NULL,
+    duration TEXT NOT NULL,
+    transcript_sid TEXT,
+    state TEXT NOT NULL DEFAULT 'recording_received',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_run_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(state, next_run_at);`);
+
+// Written when the voice webhook arrives, so call details survive restarts
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_sessions (
+    call_sid TEXT PRIMARY KEY,
+    from_number TEXT NOT NULL,
+    to_number TEXT NOT NULL,
+    direction TEXT,
+    caller_name TEXT,
+    from_city TEXT,
+    from_state TEXT,
+    from_zip TEXT,
+    from_country TEXT,
+    voiceflow_path TEXT,
+    started_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Tables created before a column existed need it added in place
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+addColumnIfMissing('calls', 'call_sid', 'TEXT');
+addColumnIfMissing('call_sessions', 'status', 'TEXT');
+addColumnIfMissing('transcripts', 'sentence_index', 'INTEGER');
+addColumnIfMissing('transcripts', 'start_time', 'REAL');
+addColumnIfMissing('transcripts', 'end_time', 'REAL');
+addColumnIfMissing('transcripts', 'confidence', 'REAL');
+addColumnIfMissing('call_sessions', 'recording_started_at', 'DATETIME');
+addColumnIfMissing('calls', 'recording_sid', 'TEXT');
+addColumnIfMissing('calls', 'recording_purged_at', 'DATETIME');
+addColumnIfMissing('calls', 'legal_hold_by', 'TEXT');
+addColumnIfMissing('calls', 'legal_hold_reason', 'TEXT');
+addColumnIfMissing('calls', 'legal_hold_at', 'DATETIME');
+addColumnIfMissing('call_sessions', 'voiceflow_project_id', 'TEXT');
+addColumnIfMissing('call_sessions', 'voiceflow_user_id', 'TEXT');
+addColumnIfMissing('call_sessions', 'voiceflow_session_id', 'TEXT');
+addColumnIfMissing('call_sessions', 'voiceflow_version_id', 'TEXT');
+
+// Last line of defence for held calls, whatever code path tries to delete them
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS calls_legal_hold_no_delete BEFORE DELETE ON calls
+  WHEN old.legal_hold_at IS NOT NULL BEGIN
+    SELECT RAISE(ABORT, 'call is under legal hold');
+  END;
+`);
+
+// Calls saved before recording_sid existed can still be traced through their
+// job, or else through the .../Recordings/RE... URL Twilio gave us
+db.run(`
+  UPDATE calls SET recording_sid = COALESCE(
+    (SELECT j.recording_sid FROM jobs j WHERE j.transcript_sid = calls.transcript_sid),
+    CASE WHEN instr(recording_url, '/Recordings/RE') > 0
+      THEN substr(recording_url, instr(recording_url, '/Recordings/RE') + 12, 34)
+    END
+  )
+  WHERE recording_sid IS NULL
+`);
+
+// Every status transition Twilio reports for a call, in the order it happened
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_status_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    call_sid TEXT NOT NULL,
+    status TEXT NOT NULL,
+    sequence_number INTEGER,
+    timestamp DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_call_status_events_call ON call_status_events(call_sid);`);
+
+// Full-text index over transcript lines, kept in sync by triggers
+const hasTranscriptIndex = db.prepare(`
+  SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'transcripts_fts'
+`).get();
+
+db.run(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS transcripts_fts USING fts5(
+    text,
+    content = 'transcripts',
+    content_rowid = 'rowid'
+  );
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS transcripts_fts_insert AFTER INSERT ON transcripts BEGIN
+    INSERT INTO transcripts_fts(rowid, text) VALUES (new.rowid, new.text);
+  END;
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS transcripts_fts_delete AFTER DELETE ON transcripts BEGIN
+    INSERT INTO transcripts_fts(transcripts_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+  END;
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS transcripts_fts_update AFTER UPDATE OF text ON transcripts BEGIN
+    INSERT INTO transcripts_fts(transcripts_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+    INSERT INTO transcripts_fts(rowid, text) VALUES (new.rowid, new.text);
+  END;
+`);
+
+// Index transcripts saved before the full-text table existed
+if (!hasTranscriptIndex) {
+  db.run(`INSERT INTO transcripts_fts(transcripts_fts) VALUES ('rebuild');`);
+}
+
+// Dashboard users; OIDC users have no password and are matched by subject
+db.run(`
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT,
+    role TEXT NOT NULL DEFAULT 'viewer',
+    oidc_subject TEXT UNIQUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Only a SHA-256 of each session token is stored
+db.run(`
+  CREATE TABLE IF NOT EXISTS user_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+  );
+`);
+
+// Who touched which call; rows can be added but never changed or removed
+db.run(`
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL,
+    role TEXT NOT NULL,
+    action TEXT NOT NULL,
+    call_id TEXT NOT NULL,
+    details TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_audit_events_call ON audit_events(call_id, created_at);`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_audit_events_user ON audit_events(username, created_at);`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+  END;
+`);
+
+db.run(`
+  CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+  END;
+`);
+
+// The cache key gained a track. Rows only describe files we can download again,
+// so a table from before that is rebuilt rather than migrated.
+const audioCacheColumns = db.prepare('PRAGMA table_info(audio_cache)').all() as { name: string }[];
+if (audioCacheColumns.length > 0 && !audioCacheColumns.some(c => c.name === 'track')) {
+  db.run('DROP TABLE audio_cache');
+}
+
+// Local copies of call audio served by /calls/:id/audio, evicted least recently used first
+db.run(`
+  CREATE TABLE IF NOT EXISTS audio_cache (
+    call_id TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    track TEXT NOT NULL DEFAULT 'mixed',
+    path TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (call_id, variant, track)
+  );
+`);
+
+// Our own copies of call audio in the configured storage backend
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_archives (
+    call_id TEXT NOT NULL,
+    variant TEXT NOT NULL,
+    driver TEXT NOT NULL,
+    object_key TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    archived_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    twilio_deleted_at DATETIME,
+    PRIMARY KEY (call_id, variant)
+  );
+`);
+
+// What the transcript redaction engine removed from each sentence. Only served to
+// reviewers and above, and every read is audited, so keep it out of selectCalls.
+db.run(`
+  CREATE TABLE IF NOT EXISTS transcript_redactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    call_id TEXT NOT NULL,
+    sentence_index INTEGER NOT NULL,
+    entity TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    value TEXT NOT NULL
+  );
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_transcript_redactions_call ON transcript_redactions(call_id);`);
+
+// Language Operator results per call; lists are JSON arrays so they can be
+// filtered with json_each
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_insights (
+    call_id TEXT PRIMARY KEY,
+    sentiment TEXT,
+    sentiment_score REAL,
+    summary TEXT,
+    topics_json TEXT NOT NULL DEFAULT '[]',
+    entities_json TEXT NOT NULL DEFAULT '[]',
+    classifiers_json TEXT NOT NULL DEFAULT '[]',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_call_insights_sentiment ON call_insights(sentiment);`);
+
+// Conversation metrics per call, one column each so they can be sorted and filtered
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_metrics (
+    call_id TEXT PRIMARY KEY,
+    customer_talk_time REAL NOT NULL,
+    assistant_talk_time REAL NOT NULL,
+    longest_silence REAL NOT NULL,
+    overlaps INTEGER NOT NULL,
+    response_latency REAL,
+    turns INTEGER NOT NULL
+  );
+`);
+
+// The final status of every call, kept after its session is cleaned up so
+// dropped calls can still be counted. No phone numbers are stored here.
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_outcomes (
+    call_sid TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    direction TEXT,
+    ended_at DATETIME NOT NULL
+  );
+`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_call_outcomes_ended ON call_outcomes(ended_at);`);
+
+// Voiceflow turns per call, kept so the transcript API is not asked again once the call has ended
+db.run(`
+  CREATE TABLE IF NOT EXISTS voiceflow_turns (
+    call_id TEXT PRIMARY KEY,
+    client TEXT NOT NULL,
+    turns_json TEXT NOT NULL,
+    fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Precomputed for the player, so the recording isn't decoded on every view
+db.run(`
+  CREATE TABLE IF NOT EXISTS call_waveforms (
+    call_id TEXT PRIMARY KEY,
+    duration REAL NOT NULL,
+    peaks_json TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
 interface CallRow {
   id: string;
+  call_sid: string | null;
   from_number: string;
   to_number: string;
   duration: string;
   recording_url: string;
   pii_url: string;
   created_at: string;
+  direction: string | null;
+  caller_name: string | null;
+  from_city: string | null;
+  from_state: string | null;
+  from_country: string | null;
+  voiceflow_path: string | null;
+  voiceflow_project_id: string | null;
+  voiceflow_user_id: string | null;
+  voiceflow_session_id: string | null;
+  voiceflow_version_id: string | null;
+  started_at: string | null;
+  status: string | null;
+  status_history_json: string | null;
   transcript_json: string;
+  legal_hold_by: string | null;
+  legal_hold_reason: string | null;
+  legal_hold_at: string | null;
+  archive_json: string | null;
+  insights_json: string | null;
+  metrics_json: string | null;
 }
 
-export function saveCalls(call: CallRecord, transcriptSid: string) {
+export function saveCalls(call: CallRecord, transcriptSid: string, recordingSid?: string) {
   const insertCall = db.prepare(`
     INSERT INTO calls (
-      id, from_number, to_number, duration,
-      recording_url, pii_url, transcript_sid, created_at
+      id, call_sid, from_number, to_number, duration,
+      recording_url, pii_url, transcript_sid, recording_sid, created_at
     )
     VALUES (
-      $id, $from_number, $to_number, $duration,
-      $recordingUrl, $piiUrl, $transcriptSid, CURRENT_TIMESTAMP
+      $id, $callSid, $from_number, $to_number, $duration,
+      $recordingUrl, $piiUrl, $transcriptSid, $recordingSid, CURRENT_TIMESTAMP
     )
   `);
 
   const insertTranscript = db.prepare(`
-    INSERT INTO transcripts (call_id, speaker, text)
-    VALUES ($callId, $speaker, $text)
+    INSERT INTO transcripts (
+      call_id, speaker, text, sentence_index, start_time, end_time, confidence
+    )
+    VALUES (
+      $callId, $speaker, $text, $sentenceIndex, $startTime, $endTime, $confidence
+    )
+  `);
+
+  const insertInsights = db.prepare(`
+    INSERT OR REPLACE INTO call_insights (
+      call_id, sentiment, sentiment_score, summary, topics_json, entities_json, classifiers_json
+    )
+    VALUES ($callId, $sentiment, $sentimentScore, $summary, $topics, $entities, $classifiers)
   `);
 
   db.transaction(() => {
     insertCall.run({
       $id: call.id,
+      $callSid: call.callSid ?? null,
       $from_number: call.from_number,
       $to_number: call.to_number,
       $duration: call.duration,
       $recordingUrl: call.recordingUrl,
       $piiUrl: call.piiUrl,
-      $transcriptSid: transcriptSid
+      $transcriptSid: transcriptSid,
+      $recordingSid: recordingSid ?? null
     });
 
+    if (call.insights) {
+      insertInsights.run({
+        $callId: call.id,
+        $sentiment: call.insights.sentiment ?? null,
+        $sentimentScore: call.insights.sentimentScore ?? null,
+        $summary: call.insights.summary ?? null,
+        $topics: JSON.stringify(call.insights.topics),
+        $entities: JSON.stringify(call.insights.entities),
+        $classifiers: JSON.stringify(call.insights.classifiers)
+      });
+    }
+
+    if (call.metrics) {
+      saveCallMetrics(call.id, call.metrics);
+    }
+
     call.transcript.forEach(t => {
       insertTranscript.run({
         $callId: call.id,
         $speaker: t.speaker,
-        $text: t.text
+        $text: t.text,
+        $sentenceIndex: t.sentenceIndex ?? null,
+        $startTime: t.startTime ?? null,
+        $endTime: t.endTime ?? null,
+        $confidence: t.confidence ?? null
       });
     });
   })();
 }
 
-export function getCalls(): CallRecord[] {
-  const calls = db.prepare(`
-    SELECT
-      c.*,
-      strftime('%Y-%m-%dT%H:%M:%SZ', c.created_at) as created_at,
-      GROUP_CONCAT(json_object(
-        'speaker', t.speaker,
-        'text', t.text
-      )) as transcript_json
-    FROM calls c
-    LEFT JOIN transcripts t ON t.call_id = c.id
-    GROUP BY c.id
-    ORDER BY c.created_at DESC
-  `).all() as CallRow[];
+// Phone numbers and caller details come from the session when we have one;
+// calls saved before sessions existed fall back to their own columns
+const selectCalls = `
+  SELECT
+    c.id,
+    c.call_sid,
+    COALESCE(s.from_number, c.from_number) as from_number,
+    COALESCE(s.to_number, c.to_number) as to_number,
+    c.duration,
+    c.recording_url,
+    c.pii_url,
+    strftime('%Y-%m-%dT%H:%M:%SZ', c.created_at) as created_at,
+    s.direction,
+    s.caller_name,
+    s.from_city,
+    s.from_state,
+    s.from_country,
+    s.voiceflow_path,
+    s.voiceflow_project_id,
+    s.voiceflow_user_id,
+    s.voiceflow_session_id,
+    s.voiceflow_version_id,
+    strftime('%Y-%m-%dT%H:%M:%SZ', s.started_at) as started_at,
+    s.status,
+    c.legal_hold_by,
+    c.legal_hold_reason,
+    strftime('%Y-%m-%dT%H:%M:%SZ', c.legal_hold_at) as legal_hold_at,
+    (
+      SELECT json_group_array(json_object('status', e.status, 'timestamp', e.timestamp))
+      FROM (
+        SELECT status, timestamp FROM call_status_events
+        WHERE call_sid = c.call_sid
+        ORDER BY timestamp, id
+      ) e
+    ) as status_history_json,
+    (
+      SELECT json_group_object(a.variant, json_object(
+        'driver', a.driver,
+        'key', a.object_key,
+        'contentType', a.content_type,
+        'size', a.size,
+        'sha256', a.sha256,
+        'archivedAt', strftime('%Y-%m-%dT%H:%M:%SZ', a.archived_at),
+        'twilioDeletedAt', strftime('%Y-%m-%dT%H:%M:%SZ', a.twilio_deleted_at)
+      ))
+      FROM call_archives a WHERE a.call_id = c.id
+    ) as archive_json,
+    (
+      SELECT json_object(
+        'sentiment', i.sentiment,
+        'sentimentScore', i.sentiment_score,
+        'summary', i.summary,
+        'topics', json(i.topics_json),
+        'entities', json(i.entities_json),
+        'classifiers', json(i.classifiers_json)
+      )
+      FROM call_insights i WHERE i.call_id = c.id
+    ) as insights_json,
+    (
+      SELECT json_object(
+        'customerTalkTime', cm.customer_talk_time,
+        'assistantTalkTime', cm.assistant_talk_time,
+        'longestSilence', cm.longest_silence,
+        'overlaps', cm.overlaps,
+        'responseLatency', cm.response_latency,
+        'turns', cm.turns
+      )
+      FROM call_metrics cm WHERE cm.call_id = c.id
+    ) as metrics_json,
+    GROUP_CONCAT(json_object(
+      'speaker', t.speaker,
+      'text', t.text,
+      'sentenceIndex', t.sentence_index,
+      'startTime', t.start_time,
+      'endTime', t.end_time,
+      'confidence', t.confidence
+    )) as transcript_json
+  FROM calls c
+  LEFT JOIN call_sessions s ON s.call_sid = c.call_sid
+  LEFT JOIN transcripts t ON t.call_id = c.id
+`;
+
+// GROUP_CONCAT has no defined order, so sort by the sentence index Twilio gave us.
+// Rows saved before timings were stored have null fields, which we drop.
+function parseTranscript(json: string | null): TranscriptLine[] {
+  const lines = JSON.parse(`[${json ?? ''}]`) as Record<string, unknown>[];
 
-  return calls.map(call => ({
+  return lines
+    .filter(line => line.speaker !== null)
+    .map(line => Object.fromEntries(
+      Object.entries(line).filter(([, value]) => value !== null)
+    ) as unknown as TranscriptLine)
+    .sort((a, b) => (a.sentenceIndex ?? 0) - (b.sentenceIndex ?? 0));
+}
+
+function parseArchive(json: string | null): CallRecord['archive'] {
+  const archive = JSON.parse(json ?? '{}') as Record<string, ArchivedObject & { twilioDeletedAt: string | null }>;
+  if (Object.keys(archive).length === 0) return undefined;
+
+  return Object.fromEntries(Object.entries(archive).map(([variant, object]) => [
+    variant,
+    { ...object, twilioDeletedAt: object.twilioDeletedAt ?? undefined }
+  ]));
+}
+
+function parseInsights(json: string | null): CallInsights | undefined {
+  if (!json) return undefined;
+  const insights = JSON.parse(json) as CallInsights & Record<string, unknown>;
+
+  return Object.fromEntries(
+    Object.entries(insights).filter(([, value]) => value !== null)
+  ) as unknown as CallInsights;
+}
+
+function parseMetrics(json: string | null): CallMetrics | undefined {
+  if (!json) return undefined;
+  const metrics = JSON.parse(json) as CallMetrics & { responseLatency: number | null };
+
+  return { ...metrics, responseLatency: metrics.responseLatency ?? undefined };
+}
+
+function toCallRecord(call: CallRow): CallRecord {
+  const callerLocation = [call.from_city, call.from_state, call.from_country]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
     id: call.id,
+    callSid: call.call_sid ?? undefined,
     from: call.from_number,
     to: call.to_number,
     from_number: call.from_number,
@@ -100,30 +599,1204 @@ export function getCalls(): CallRecord[] {
     recordingUrl: call.recording_url,
     piiUrl: call.pii_url,
     createdAt: call.created_at,
-    transcript: JSON.parse(`[${call.transcript_json}]`)
+    direction: call.direction ?? undefined,
+    callerName: call.caller_name ?? undefined,
+    callerLocation: callerLocation || undefined,
+    voiceflowPath: call.voiceflow_path ?? undefined,
+    voiceflow: call.voiceflow_project_id
+      ? {
+          projectId: call.voiceflow_project_id,
+          userId: call.voiceflow_user_id ?? undefined,
+          sessionId: call.voiceflow_session_id ?? undefined,
+          versionId: call.voiceflow_version_id ?? undefined
+        }
+      : undefined,
+    startedAt: call.started_at ?? undefined,
+    status: (call.status as CallStatus | null) ?? undefined,
+    statusHistory: call.status_history_json ? JSON.parse(call.status_history_json) : [],
+    transcript: parseTranscript(call.transcript_json),
+    legalHold: call.legal_hold_at
+      ? { by: call.legal_hold_by ?? '', reason: call.legal_hold_reason ?? '', at: call.legal_hold_at }
+      : undefined,
+    archive: parseArchive(call.archive_json),
+    insights: parseInsights(call.insights_json),
+    metrics: parseMetrics(call.metrics_json)
+  };
+}
+
+export function getCalls(): CallRecord[] {
+  const calls = db.prepare(`
+    ${selectCalls}
+    GROUP BY c.id
+    ORDER BY c.created_at DESC
+  `).all() as CallRow[];
+
+  return calls.map(toCallRecord);
+}
+
+function getCallsByIds(ids: string[]): CallRecord[] {
+  if (ids.length === 0) return [];
+
+  const calls = db.prepare(`
+    ${selectCalls}
+    WHERE c.id IN (${ids.map(() => '?').join(', ')})
+    GROUP BY c.id
+  `).all(...ids) as CallRow[];
+
+  // Keep the order of the ids we were given (e.g. search rank)
+  const byId = new Map(calls.map(call => [call.id, toCallRecord(call)]));
+  return ids.map(id => byId.get(id)).filter((call): call is CallRecord => !!call);
+}
+
+// Turn free text into an FTS5 query: "quoted phrases" stay phrases, every other
+// word is quoted (so punctuation can't break the syntax) and prefix-matched
+export function toFtsQuery(search: string) {
+  const terms = search.match(/"[^"]*"|[^\s"]+/g) ?? [];
+
+  return terms
+    .map(term => {
+      const isPhrase = term.startsWith('"');
+      const text = (isPhrase ? term.slice(1, -1) : term).replace(/"/g, '""').trim();
+      if (!text) return null;
+      return isPhrase ? `"${text}"` : `"${text}"*`;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+// FTS5 snippet() wraps matches in these control characters, which can't appear
+// in transcript text; we split on them instead of sending HTML to the browser
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const MAX_HIGHLIGHTS_PER_CALL = 3;
+
+function toHighlightParts(snippet: string) {
+  return snippet
+    .split(new RegExp(`(${MATCH_START}[^${MATCH_END}]*${MATCH_END})`))
+    .filter(Boolean)
+    .map(part => part.startsWith(MATCH_START)
+      ? { text: part.slice(1, -1), match: true }
+      : { text: part, match: false });
+}
+
+function getSearchHighlights(ftsQuery: string, callIds: string[]) {
+  const highlights = new Map<string, SearchHighlight[]>();
+  if (!ftsQuery || callIds.length === 0) return highlights;
+
+  const rows = db.prepare(`
+    SELECT
+      t.call_id,
+      t.speaker,
+      snippet(transcripts_fts, 0, char(2), char(3), '…', 12) as snippet
+    FROM transcripts_fts
+    JOIN transcripts t ON t.rowid = transcripts_fts.rowid
+    WHERE transcripts_fts MATCH ?
+      AND t.call_id IN (${callIds.map(() => '?').join(', ')})
+    ORDER BY rank
+  `).all(ftsQuery, ...callIds) as { call_id: string; speaker: Speaker; snippet: string }[];
+
+  rows.forEach(row => {
+    const callHighlights = highlights.get(row.call_id) ?? [];
+    if (callHighlights.length < MAX_HIGHLIGHTS_PER_CALL) {
+      callHighlights.push({ speaker: row.speaker, parts: toHighlightParts(row.snippet) });
+      highlights.set(row.call_id, callHighlights);
+    }
+  });
+
+  return highlights;
+}
+
+// Calls whose transcript lines match an FTS query, optionally only one speaker's lines
+function transcriptMatchCondition(param: string, speaker?: Speaker) {
+  return `c.id IN (
+    SELECT t.call_id
+    FROM transcripts_fts
+    JOIN transcripts t ON t.rowid = transcripts_fts.rowid
+    WHERE transcripts_fts MATCH ${param}
+    ${speaker ? `AND t.speaker = '${speaker}'` : ''}
+  )`;
+}
+
+// Search transcripts (ranked by bm25) and phone numbers, apply the filters and
+// paginate, all in SQL
+const PHONE_SEARCH = /^[\d\s()+.-]+$/;
+
+const METRIC_COLUMNS: Record<CallMetric, string> = {
+  customerTalkTime: 'cm.customer_talk_time',
+  assistantTalkTime: 'cm.assistant_talk_time',
+  longestSilence: 'cm.longest_silence',
+  overlaps: 'cm.overlaps',
+  responseLatency: 'cm.response_latency',
+  turns: 'cm.turns'
+};
+
+const SORT_COLUMNS: Record<CallSort['field'], string> = {
+  createdAt: 'c.created_at',
+  duration: 'CAST(c.duration AS INTEGER)',
+  ...METRIC_COLUMNS
+};
+
+export function searchCalls(options: { filters: CallFilters; sort?: CallSort; page: number; limit: number }) {
+  const { filters } = options;
+  const search = filters.search?.trim() ?? '';
+  const ftsQuery = toFtsQuery(search);
+
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  let matchJoin = '';
+  let orderBy = 'c.created_at DESC';
+
+  if (search) {
+    const searchConditions: string[] = [];
+
+    // Numbers are shown masked, so they only match in full (with or without the
+    // country code); matching parts of them would let a search uncover the digits
+    const numberDigits = PHONE_SEARCH.test(search) ? search.replace(/\D/g, '') : '';
+    if (numberDigits.length >= 10) {
+      params.$number = `+${numberDigits}`;
+      params.$nationalNumber = `%${numberDigits}`;
+      searchConditions.push(
+        'COALESCE(s.from_number, c.from_number) = $number',
+        'COALESCE(s.to_number, c.to_number) = $number',
+        'COALESCE(s.from_number, c.from_number) LIKE $nationalNumber',
+        'COALESCE(s.to_number, c.to_number) LIKE $nationalNumber'
+      );
+    }
+
+    if (ftsQuery) {
+      params.$query = ftsQuery;
+      matchJoin = `
+        LEFT JOIN (
+          SELECT t.call_id, MIN(transcripts_fts.rank) as score
+          FROM transcripts_fts
+          JOIN transcripts t ON t.rowid = transcripts_fts.rowid
+          WHERE transcripts_fts MATCH $query
+          GROUP BY t.call_id
+        ) m ON m.call_id = c.id
+      `;
+      searchConditions.push('m.call_id IS NOT NULL');
+      // Transcript matches first by relevance, then number-only matches
+      orderBy = 'm.score IS NULL, m.score, c.created_at DESC';
+    }
+
+    conditions.push(searchConditions.length > 0 ? `(${searchConditions.join(' OR ')})` : '0');
+  }
+
+  if (filters.createdFrom) {
+    params.$createdFrom = filters.createdFrom;
+    conditions.push('date(c.created_at) >= $createdFrom');
+  }
+  if (filters.createdTo) {
+    params.$createdTo = filters.createdTo;
+    conditions.push('date(c.created_at) <= $createdTo');
+  }
+  if (filters.minDuration !== undefined) {
+    params.$minDuration = filters.minDuration;
+    conditions.push('CAST(c.duration AS INTEGER) >= $minDuration');
+  }
+  if (filters.maxDuration !== undefined) {
+    params.$maxDuration = filters.maxDuration;
+    conditions.push('CAST(c.duration AS INTEGER) <= $maxDuration');
+  }
+  if (filters.fromNumber) {
+    params.$fromNumber = filters.fromNumber;
+    conditions.push('COALESCE(s.from_number, c.from_number) = $fromNumber');
+  }
+  if (filters.toNumber) {
+    params.$toNumber = filters.toNumber;
+    conditions.push('COALESCE(s.to_number, c.to_number) = $toNumber');
+  }
+  if (filters.direction) {
+    // Twilio reports outbound calls as outbound-api or outbound-dial
+    params.$direction = `${filters.direction}%`;
+    conditions.push('s.direction LIKE $direction');
+  }
+
+  const customerQuery = toFtsQuery(filters.customerSaid ?? '');
+  if (customerQuery) {
+    params.$customerQuery = customerQuery;
+    conditions.push(transcriptMatchCondition('$customerQuery', 'customer'));
+  }
+  const assistantQuery = toFtsQuery(filters.assistantSaid ?? '');
+  if (assistantQuery) {
+    params.$assistantQuery = assistantQuery;
+    conditions.push(transcriptMatchCondition('$assistantQuery', 'assistant'));
+  }
+
+  if (filters.sentiment) {
+    params.$sentiment = filters.sentiment.toLowerCase();
+    conditions.push('EXISTS (SELECT 1 FROM call_insights i WHERE i.call_id = c.id AND i.sentiment = $sentiment)');
+  }
+  if (filters.topic) {
+    params.$topic = filters.topic;
+    conditions.push(`EXISTS (
+      SELECT 1 FROM call_insights i, json_each(i.topics_json) j
+      WHERE i.call_id = c.id AND j.value LIKE $topic
+    )`);
+  }
+  // An entity matches on its type (e.g. "product") or its value
+  if (filters.entity) {
+    params.$entity = filters.entity;
+    conditions.push(`EXISTS (
+      SELECT 1 FROM call_insights i, json_each(i.entities_json) j
+      WHERE i.call_id = c.id
+        AND (json_extract(j.value, '$.type') LIKE $entity OR json_extract(j.value, '$.value') LIKE $entity)
+    )`);
+  }
+  // A classifier matches on its label, or on "name: label"
+  if (filters.classifier) {
+    params.$classifier = filters.classifier;
+    conditions.push(`EXISTS (
+      SELECT 1 FROM call_insights i, json_each(i.classifiers_json) j
+      WHERE i.call_id = c.id AND (
+        json_extract(j.value, '$.label') LIKE $classifier
+        OR json_extract(j.value, '$.name') || ': ' || json_extract(j.value, '$.label') LIKE $classifier
+      )
+    )`);
+  }
+
+  // Calls without metrics (no sentence timings) never match a metric filter
+  Object.entries(filters.metrics ?? {}).forEach(([metric, bounds]) => {
+    const column = METRIC_COLUMNS[metric as CallMetric];
+    if (bounds.min !== undefined) {
+      params[`$min_${metric}`] = bounds.min;
+      conditions.push(`${column} >= $min_${metric}`);
+    }
+    if (bounds.max !== undefined) {
+      params[`$max_${metric}`] = bounds.max;
+      conditions.push(`${column} <= $max_${metric}`);
+    }
+  });
+
+  // An explicit sort replaces search relevance; calls without the value go last
+  if (options.sort) {
+    orderBy = `${SORT_COLUMNS[options.sort.field]} ${options.sort.order.toUpperCase()} NULLS LAST, c.created_at DESC`;
+  }
+
+  const from = `
+    FROM calls c
+    LEFT JOIN call_sessions s ON s.call_sid = c.call_sid
+    LEFT JOIN call_metrics cm ON cm.call_id = c.id
+    ${matchJoin}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+  `;
+
+  const { total } = db.prepare(`SELECT COUNT(*) as total ${from}`).get(params) as { total: number };
+
+  const ids = (db.prepare(`
+    SELECT c.id ${from}
+    ORDER BY ${orderBy}
+    LIMIT $limit OFFSET $offset
+  `).all({
+    ...params,
+    $limit: options.limit,
+    $offset: (options.page - 1) * options.limit
+  }) as { id: string }[]).map(row => row.id);
+
+  // Snippets show whichever text the user searched for
+  const highlightQuery = [ftsQuery, customerQuery, assistantQuery]
+    .filter(Boolean)
+    .map(query => `(${query})`)
+    .join(' OR ');
+  const highlights = getSearchHighlights(highlightQuery, ids);
+  const calls = getCallsByIds(ids).map(call => ({
+    ...call,
+    ...(highlights.has(call.id) && { highlights: highlights.get(call.id) })
   }));
+
+  return { calls, total };
+}
+
+export function getCall(id: string): CallRecord | null {
+  const call = db.prepare(`
+    ${selectCalls}
+    WHERE c.id = ?
+    GROUP BY c.id
+  `).get(id) as CallRow | null;
+
+  return call ? toCallRecord(call) : null;
+}
+
+// The first webhook or status callback of a call creates the session; later
+// ones only fill in details that were missing (e.g. the Voiceflow path)
+export function saveCallSession(session: CallSession) {
+  db.prepare(`
+    INSERT INTO call_sessions (
+      call_sid, from_number, to_number, direction, caller_name,
+      from_city, from_state, from_zip, from_country, voiceflow_path,
+      voiceflow_project_id, voiceflow_user_id, voiceflow_session_id, voiceflow_version_id
+    )
+    VALUES (
+      $callSid, $from, $to, $direction, $callerName,
+      $fromCity, $fromState, $fromZip, $fromCountry, $voiceflowPath,
+      $voiceflowProjectId, $voiceflowUserId, $voiceflowSessionId, $voiceflowVersionId
+    )
+    ON CONFLICT(call_sid) DO UPDATE SET
+      direction = COALESCE(call_sessions.direction, excluded.direction),
+      caller_name = COALESCE(call_sessions.caller_name, excluded.caller_name),
+      from_city = COALESCE(call_sessions.from_city, excluded.from_city),
+      from_state = COALESCE(call_sessions.from_state, excluded.from_state),
+      from_zip = COALESCE(call_sessions.from_zip, excluded.from_zip),
+      from_country = COALESCE(call_sessions.from_country, excluded.from_country),
+      voiceflow_path = COALESCE(call_sessions.voiceflow_path, excluded.voiceflow_path),
+      voiceflow_project_id = COALESCE(call_sessions.voiceflow_project_id, excluded.voiceflow_project_id),
+      voiceflow_user_id = COALESCE(call_sessions.voiceflow_user_id, excluded.voiceflow_user_id),
+      voiceflow_session_id = COALESCE(call_sessions.voiceflow_session_id, excluded.voiceflow_session_id),
+      voiceflow_version_id = COALESCE(call_sessions.voiceflow_version_id, excluded.voiceflow_version_id)
+  `).run({
+    $callSid: session.callSid,
+    $from: session.from,
+    $to: session.to,
+    $direction: session.direction ?? null,
+    $callerName: session.callerName ?? null,
+    $fromCity: session.fromCity ?? null,
+    $fromState: session.fromState ?? null,
+    $fromZip: session.fromZip ?? null,
+    $fromCountry: session.fromCountry ?? null,
+    $voiceflowPath: session.voiceflowPath ?? null,
+    $voiceflowProjectId: session.voiceflow?.projectId ?? null,
+    $voiceflowUserId: session.voiceflow?.userId ?? null,
+    $voiceflowSessionId: session.voiceflow?.sessionId ?? null,
+    $voiceflowVersionId: session.voiceflow?.versionId ?? null
+  });
+}
+
+export function getCallSession(callSid: string) {
+  return db.prepare(`
+    SELECT * FROM call_sessions WHERE call_sid = ?
+  `).get(callSid) as {
+    call_sid: string;
+    from_number: string;
+    to_number: string;
+    direction: string | null;
+    voiceflow_path: string | null;
+    status: CallStatus | null;
+    recording_started_at: string | null;
+  } | null;
+}
+
+const FINAL_STATUSES: CallStatus[] = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+const DROPPED_STATUSES: CallStatus[] = ['busy', 'no-answer', 'failed', 'canceled'];
+
+export function recordCallStatus(event: {
+  callSid: string;
+  status: CallStatus;
+  timestamp: string;
+  sequenceNumber?: number;
+}) {
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO call_status_events (call_sid, status, sequence_number, timestamp)
+      VALUES ($callSid, $status, $sequenceNumber, $timestamp)
+    `).run({
+      $callSid: event.callSid,
+      $status: event.status,
+      $sequenceNumber: event.sequenceNumber ?? null,
+      $timestamp: event.timestamp
+    });
+
+    db.prepare(`
+      UPDATE call_sessions SET status = $status WHERE call_sid = $callSid
+    `).run({ $callSid: event.callSid, $status: event.status });
+
+    if (FINAL_STATUSES.includes(event.status)) {
+      db.prepare(`
+        INSERT OR REPLACE INTO call_outcomes (call_sid, status, direction, ended_at)
+        SELECT call_sid, $status, direction, $timestamp FROM call_sessions WHERE call_sid = $callSid
+      `).run({ $callSid: event.callSid, $status: event.status, $timestamp: event.timestamp });
+    }
+  })();
+}
+
+// Claims the right to start recording; only the first caller gets true, so
+// duplicate or retried "answered" callbacks never start a second recording
+export function markRecordingStarted(callSid: string) {
+  const result = db.prepare(`
+    UPDATE call_sessions SET recording_started_at = CURRENT_TIMESTAMP
+    WHERE call_sid = ? AND recording_started_at IS NULL
+  `).run(callSid);
+
+  return result.changes > 0;
 }
 
-export async function deleteCall(id: string) {
+// Sessions whose call never produced a saved recording (unanswered, failed,
+// not recorded) are dropped once they are older than maxAgeHours
+export function cleanupStaleSessions(maxAgeHours: number) {
+  const result = db.prepare(`
+    DELETE FROM call_sessions
+    WHERE started_at < datetime('now', '-' || $maxAgeHours || ' hours')
+      AND call_sid NOT IN (SELECT call_sid FROM calls WHERE call_sid IS NOT NULL)
+      AND call_sid NOT IN (SELECT call_sid FROM jobs WHERE state NOT IN ('saved', 'failed'))
+  `).run({ $maxAgeHours: maxAgeHours });
+
+  db.run(`
+    DELETE FROM call_status_events
+    WHERE call_sid NOT IN (SELECT call_sid FROM call_sessions)
+  `);
+
+  return result.changes;
+}
+
+export async function deleteCall(id: string): Promise<DeleteCallResult> {
   try {
+    let result: DeleteCallResult = 'deleted';
+
     // Use a transaction to ensure both tables are updated atomically
     db.transaction(() => {
+      const call = db.prepare('SELECT legal_hold_at FROM calls WHERE id = ?')
+        .get(id) as { legal_hold_at: string | null } | null;
+
+      if (!call) {
+        result = 'not_found';
+        return;
+      }
+      if (call.legal_hold_at) {
+        result = 'legal_hold';
+        return;
+      }
+
       // Delete transcripts first (due to foreign key constraint)
       const deleteTranscripts = db.prepare('DELETE FROM transcripts WHERE call_id = ?');
       deleteTranscripts.run(id);
+      db.prepare('DELETE FROM call_waveforms WHERE call_id = ?').run(id);
+      db.prepare('DELETE FROM transcript_redactions WHERE call_id = ?').run(id);
+      db.prepare('DELETE FROM call_insights WHERE call_id = ?').run(id);
+      db.prepare('DELETE FROM call_metrics WHERE call_id = ?').run(id);
+      db.prepare('DELETE FROM voiceflow_turns WHERE call_id = ?').run(id);
 
       // Then delete the call
       const deleteCalls = db.prepare('DELETE FROM calls WHERE id = ?');
-      const result = deleteCalls.run(id);
-
-      if (result.changes === 0) {
-        throw new Error('Call not found');
-      }
+      deleteCalls.run(id);
     })();
 
-    return true;
+    return result;
   } catch (error) {
     console.error('Error deleting from database:', error);
-    return false;
+    throw error;
+  }
+}
+
+export function getLegalHold(id: string): LegalHold | null {
+  const row = db.prepare(`
+    SELECT legal_hold_by, legal_hold_reason,
+      strftime('%Y-%m-%dT%H:%M:%SZ', legal_hold_at) as legal_hold_at
+    FROM calls WHERE id = ?
+  `).get(id) as Pick<CallRow, 'legal_hold_by' | 'legal_hold_reason' | 'legal_hold_at'> | null;
+
+  return row?.legal_hold_at
+    ? { by: row.legal_hold_by ?? '', reason: row.legal_hold_reason ?? '', at: row.legal_hold_at }
+    : null;
+}
+
+// Returns false if the call doesn't exist
+export function setLegalHold(id: string, hold: { by: string; reason: string }) {
+  return db.prepare(`
+    UPDATE calls SET
+      legal_hold_by = $by,
+      legal_hold_reason = $reason,
+      legal_hold_at = CURRENT_TIMESTAMP
+    WHERE id = $id
+  `).run({ $id: id, $by: hold.by, $reason: hold.reason }).changes > 0;
+}
+
+export function releaseLegalHold(id: string) {
+  return db.prepare(`
+    UPDATE calls SET legal_hold_by = NULL, legal_hold_reason = NULL, legal_hold_at = NULL
+    WHERE id = ?
+  `).run(id).changes > 0;
+}
+
+// Returns false if a job for this recording already exists (Twilio retried the webhook)
+export function enqueueRecordingJob(job: {
+  callSid: string;
+  recordingSid: string;
+  recordingUrl: string;
+  duration: string;
+}) {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO jobs (call_sid, recording_sid, recording_url, duration)
+    VALUES ($callSid, $recordingSid, $recordingUrl, $duration)
+  `).run({
+    $callSid: job.callSid,
+    $recordingSid: job.recordingSid,
+    $recordingUrl: job.recordingUrl,
+    $duration: job.duration
+  });
+
+  return result.changes > 0;
+}
+
+export function countPendingJobs() {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM jobs WHERE state NOT IN ('saved', 'failed')
+  `).get() as { count: number };
+  return row.count;
+}
+
+export function getDueJobs(limit = 10): RecordingJob[] {
+  return db.prepare(`
+    SELECT * FROM jobs
+    WHERE state NOT IN ('saved', 'failed')
+      AND next_run_at <= CURRENT_TIMESTAMP
+    ORDER BY next_run_at ASC
+    LIMIT ?
+  `).all(limit) as RecordingJob[];
+}
+
+export function updateJob(id: number, update: {
+  state: JobState;
+  attempts?: number;
+  delaySeconds?: number;
+  transcriptSid?: string | null;
+  lastError?: string | null;
+}) {
+  db.prepare(`
+    UPDATE jobs SET
+      state = $state,
+      attempts = COALESCE($attempts, attempts),
+      transcript_sid = COALESCE($transcriptSid, transcript_sid),
+      last_error = $lastError,
+      next_run_at = datetime('now', '+' || $delaySeconds || ' seconds'),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = $id
+  `).run({
+    $id: id,
+    $state: update.state,
+    $attempts: update.attempts ?? null,
+    $transcriptSid: update.transcriptSid ?? null,
+    $lastError: update.lastError ?? null,
+    $delaySeconds: update.delaySeconds ?? 0
+  });
+}
+
+// Save the call and close the job atomically so a restart can't save it twice
+export function saveJobCall(
+  jobId: number,
+  call: CallRecord,
+  transcriptSid: string,
+  recordingSid: string,
+  redactions: TranscriptRedaction[] = []
+) {
+  db.transaction(() => {
+    saveCalls(call, transcriptSid, recordingSid);
+    saveTranscriptRedactions(call.id, redactions);
+    updateJob(jobId, { state: 'saved' });
+  })();
+}
+
+function saveTranscriptRedactions(callId: string, redactions: TranscriptRedaction[]) {
+  const insert = db.prepare(`
+    INSERT INTO transcript_redactions (call_id, sentence_index, entity, position, value)
+    VALUES ($callId, $sentenceIndex, $entity, $position, $value)
+  `);
+
+  redactions.forEach(redaction => insert.run({
+    $callId: callId,
+    $sentenceIndex: redaction.sentenceIndex,
+    $entity: redaction.entity,
+    $position: redaction.position,
+    $value: redaction.value
+  }));
+}
+
+export function getTranscriptRedactions(callId: string) {
+  return db.prepare(`
+    SELECT sentence_index as sentenceIndex, entity, position, value
+    FROM transcript_redactions WHERE call_id = ?
+    ORDER BY sentence_index, position
+  `).all(callId) as TranscriptRedaction[];
+}
+
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string | null;
+  role: Role;
+}
+
+export function countUsers() {
+  const row = db.prepare('SELECT COUNT(*) as count FROM users').get() as { count: number };
+  return row.count;
+}
+
+export function getUserByUsername(username: string) {
+  return db.prepare(`
+    SELECT id, username, password_hash, role FROM users WHERE username = ?
+  `).get(username) as UserRow | null;
+}
+
+export function listUsers(): DashboardUser[] {
+  return db.prepare(`
+    SELECT id, username, role FROM users ORDER BY username
+  `).all() as DashboardUser[];
+}
+
+export function saveUser(user: { username: string; passwordHash: string | null; role: Role }) {
+  db.prepare(`
+    INSERT INTO users (username, password_hash, role)
+    VALUES ($username, $passwordHash, $role)
+    ON CONFLICT(username) DO UPDATE SET
+      password_hash = COALESCE(excluded.password_hash, users.password_hash),
+      role = excluded.role
+  `).run({
+    $username: user.username,
+    $passwordHash: user.passwordHash,
+    $role: user.role
+  });
+}
+
+export function deleteUser(username: string) {
+  let deleted = false;
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM user_sessions
+      WHERE user_id IN (SELECT id FROM users WHERE username = ?)
+    `).run(username);
+    deleted = db.prepare('DELETE FROM users WHERE username = ?').run(username).changes > 0;
+  })();
+  return deleted;
+}
+
+// OIDC users are created on first login with the default role; an admin can
+// change the role later and it is kept on subsequent logins. Returns null if the
+// username already belongs to a different account.
+export function findOrCreateOidcUser(subject: string, username: string, role: Role) {
+  db.prepare(`
+    INSERT INTO users (username, role, oidc_subject)
+    VALUES ($username, $role, $subject)
+    ON CONFLICT DO NOTHING
+  `).run({ $username: username, $role: role, $subject: subject });
+
+  return db.prepare(`
+    SELECT id, username, role FROM users WHERE oidc_subject = ?
+  `).get(subject) as DashboardUser | null;
+}
+
+export function createUserSession(tokenHash: string, userId: number, maxAgeHours: number) {
+  db.prepare(`
+    INSERT INTO user_sessions (token_hash, user_id, expires_at)
+    VALUES ($tokenHash, $userId, datetime('now', '+' || $maxAgeHours || ' hours'))
+  `).run({ $tokenHash: tokenHash, $userId: userId, $maxAgeHours: maxAgeHours });
+}
+
+export function getUserBySession(tokenHash: string) {
+  return db.prepare(`
+    SELECT u.id, u.username, u.role
+    FROM user_sessions us
+    JOIN users u ON u.id = us.user_id
+    WHERE us.token_hash = ? AND us.expires_at > CURRENT_TIMESTAMP
+  `).get(tokenHash) as DashboardUser | null;
+}
+
+export function deleteUserSession(tokenHash: string) {
+  db.prepare('DELETE FROM user_sessions WHERE token_hash = ?').run(tokenHash);
+}
+
+export function cleanupExpiredUserSessions() {
+  return db.prepare('DELETE FROM user_sessions WHERE expires_at <= CURRENT_TIMESTAMP').run().changes;
+}
+
+export function recordAuditEvents(event: {
+  username: string;
+  role: Role;
+  action: AuditAction;
+  callIds: string[];
+  details?: Record<string, unknown>;
+}) {
+  const insert = db.prepare(`
+    INSERT INTO audit_events (username, role, action, call_id, details)
+    VALUES ($username, $role, $action, $callId, $details)
+  `);
+
+  db.transaction(() => {
+    for (const callId of event.callIds) {
+      insert.run({
+        $username: event.username,
+        $role: event.role,
+        $action: event.action,
+        $callId: callId,
+        $details: event.details ? JSON.stringify(event.details) : null
+      });
+    }
+  })();
+}
+
+interface AuditEventRow {
+  id: number;
+  username: string;
+  role: Role;
+  action: AuditAction;
+  call_id: string;
+  details: string | null;
+  created_at: string;
+}
+
+// Newest first; omit page/limit to get every matching event (CSV export)
+export function searchAuditEvents({ filters, page, limit }: {
+  filters: AuditFilters;
+  page?: number;
+  limit?: number;
+}) {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (filters.username) {
+    conditions.push('username = $username');
+    params.$username = filters.username;
+  }
+  if (filters.callId) {
+    conditions.push('call_id = $callId');
+    params.$callId = filters.callId;
+  }
+  if (filters.action) {
+    conditions.push('action = $action');
+    params.$action = filters.action;
+  }
+  if (filters.createdFrom) {
+    conditions.push('date(created_at) >= $createdFrom');
+    params.$createdFrom = filters.createdFrom;
+  }
+  if (filters.createdTo) {
+    conditions.push('date(created_at) <= $createdTo');
+    params.$createdTo = filters.createdTo;
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) as total FROM audit_events ${where}
+  `).get(params) as { total: number };
+
+  let pagination = '';
+  if (page !== undefined && limit !== undefined) {
+    pagination = 'LIMIT $limit OFFSET $offset';
+    params.$limit = limit;
+    params.$offset = (page - 1) * limit;
+  }
+
+  const rows = db.prepare(`
+    SELECT id, username, role, action, call_id, details, created_at
+    FROM audit_events
+    ${where}
+    ORDER BY created_at DESC, id DESC
+    ${pagination}
+  `).all(params) as AuditEventRow[];
+
+  const events: AuditEvent[] = rows.map(row => ({
+    id: row.id,
+    createdAt: row.created_at,
+    username: row.username,
+    role: row.role,
+    action: row.action,
+    callId: row.call_id,
+    details: row.details ? JSON.parse(row.details) : null
+  }));
+
+  return { events, total };
+}
+
+export interface RetentionCandidate {
+  id: string;
+  call_sid: string | null;
+  from_number: string;
+  to_number: string;
+  direction: string | null;
+  created_at: string;
+  age_days: number;
+  transcript_sid: string;
+  recording_sid: string | null;
+  recording_purged_at: string | null;
+  legal_hold_at: string | null;
+}
+
+// Every saved call with what the retention rules need to match and act on
+export function getRetentionCandidates() {
+  return db.prepare(`
+    SELECT
+      c.id,
+      c.call_sid,
+      COALESCE(s.from_number, c.from_number) as from_number,
+      COALESCE(s.to_number, c.to_number) as to_number,
+      s.direction,
+      strftime('%Y-%m-%dT%H:%M:%SZ', c.created_at) as created_at,
+      julianday('now') - julianday(c.created_at) as age_days,
+      c.transcript_sid,
+      c.recording_sid,
+      c.recording_purged_at,
+      c.legal_hold_at
+    FROM calls c
+    LEFT JOIN call_sessions s ON s.call_sid = c.call_sid
+    ORDER BY c.created_at
+  `).all() as RetentionCandidate[];
+}
+
+// The raw recording is gone from Twilio; the redacted media and transcript remain
+export function markRecordingPurged(id: string) {
+  db.prepare(`
+    UPDATE calls SET recording_url = '', recording_purged_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND legal_hold_at IS NULL
+  `).run(id);
+}
+
+// Where to fetch a call's audio from Twilio
+export interface CallMediaSource {
+  id: string;
+  transcript_sid: string;
+  recording_sid: string | null;
+  recording_purged_at: string | null;
+  pii_url: string;
+  created_at: string;
+}
+
+export function getCallMediaSource(id: string) {
+  return db.prepare(`
+    SELECT
+      id, transcript_sid, recording_sid, recording_purged_at, pii_url,
+      strftime('%Y-%m-%dT%H:%M:%SZ', created_at) as created_at
+    FROM calls WHERE id = ?
+  `).get(id) as CallMediaSource | null;
+}
+
+// Presigned media URLs expire; keep the latest one we were given
+export function updatePiiUrl(id: string, piiUrl: string) {
+  db.prepare('UPDATE calls SET pii_url = ? WHERE id = ?').run(piiUrl, id);
+}
+
+export interface AudioCacheEntry {
+  call_id: string;
+  variant: AudioVariant;
+  track: AudioTrack;
+  path: string;
+  content_type: string;
+  size: number;
+}
+
+export function getAudioCacheEntry(callId: string, variant: AudioVariant, track: AudioTrack) {
+  const entry = db.prepare(`
+    SELECT call_id, variant, track, path, content_type, size FROM audio_cache
+    WHERE call_id = ? AND variant = ? AND track = ?
+  `).get(callId, variant, track) as AudioCacheEntry | null;
+
+  if (entry) {
+    db.prepare(`
+      UPDATE audio_cache SET last_accessed_at = CURRENT_TIMESTAMP
+      WHERE call_id = ? AND variant = ? AND track = ?
+    `).run(callId, variant, track);
   }
+  return entry;
+}
+
+export function saveAudioCacheEntry(entry: AudioCacheEntry) {
+  db.prepare(`
+    INSERT OR REPLACE INTO audio_cache (call_id, variant, track, path, content_type, size)
+    VALUES ($callId, $variant, $track, $path, $contentType, $size)
+  `).run({
+    $callId: entry.call_id,
+    $variant: entry.variant,
+    $track: entry.track,
+    $path: entry.path,
+    $contentType: entry.content_type,
+    $size: entry.size
+  });
+}
+
+// Least recently used first
+export function listAudioCacheEntries() {
+  return db.prepare(`
+    SELECT call_id, variant, track, path, content_type, size FROM audio_cache
+    ORDER BY last_accessed_at, rowid
+  `).all() as AudioCacheEntry[];
+}
+
+// Leaving out the variant or track deletes all of them
+export function deleteAudioCacheEntries(callId: string, variant?: AudioVariant, track?: AudioTrack) {
+  return db.prepare(`
+    DELETE FROM audio_cache
+    WHERE call_id = $callId
+      AND ($variant IS NULL OR variant = $variant)
+      AND ($track IS NULL OR track = $track)
+    RETURNING call_id, variant, track, path, content_type, size
+  `).all({ $callId: callId, $variant: variant ?? null, $track: track ?? null }) as AudioCacheEntry[];
+}
+
+export interface CallArchiveEntry {
+  call_id: string;
+  variant: AudioVariant;
+  driver: string;
+  object_key: string;
+  content_type: string;
+  size: number;
+  sha256: string;
+  twilio_deleted_at: string | null;
+}
+
+export function getCallArchive(callId: string, variant: AudioVariant) {
+  return db.prepare(`
+    SELECT call_id, variant, driver, object_key, content_type, size, sha256, twilio_deleted_at
+    FROM call_archives WHERE call_id = ? AND variant = ?
+  `).get(callId, variant) as CallArchiveEntry | null;
+}
+
+export function listCallArchives(callId: string) {
+  return db.prepare(`
+    SELECT call_id, variant, driver, object_key, content_type, size, sha256, twilio_deleted_at
+    FROM call_archives WHERE call_id = ?
+  `).all(callId) as CallArchiveEntry[];
+}
+
+export function saveCallArchive(entry: Omit<CallArchiveEntry, 'twilio_deleted_at'>) {
+  db.prepare(`
+    INSERT OR REPLACE INTO call_archives (call_id, variant, driver, object_key, content_type, size, sha256)
+    VALUES ($callId, $variant, $driver, $objectKey, $contentType, $size, $sha256)
+  `).run({
+    $callId: entry.call_id,
+    $variant: entry.variant,
+    $driver: entry.driver,
+    $objectKey: entry.object_key,
+    $contentType: entry.content_type,
+    $size: entry.size,
+    $sha256: entry.sha256
+  });
+}
+
+export function markTwilioCopyDeleted(callId: string, variant: AudioVariant) {
+  db.prepare(`
+    UPDATE call_archives SET twilio_deleted_at = CURRENT_TIMESTAMP
+    WHERE call_id = ? AND variant = ?
+  `).run(callId, variant);
+}
+
+export function deleteCallArchives(callId: string, variant?: AudioVariant) {
+  return db.prepare(`
+    DELETE FROM call_archives WHERE call_id = $callId AND ($variant IS NULL OR variant = $variant)
+    RETURNING call_id, variant, driver, object_key, content_type, size, sha256, twilio_deleted_at
+  `).all({ $callId: callId, $variant: variant ?? null }) as CallArchiveEntry[];
+}
+
+// Calls with audio still to archive: every call has redacted media, and a raw
+// recording unless there never was one or retention already purged it
+export function getCallsToArchive() {
+  return db.prepare(`
+    SELECT c.id FROM calls c
+    WHERE NOT EXISTS (
+      SELECT 1 FROM call_archives a WHERE a.call_id = c.id AND a.variant = 'redacted'
+    ) OR (
+      c.recording_sid IS NOT NULL AND c.recording_purged_at IS NULL AND NOT EXISTS (
+        SELECT 1 FROM call_archives a WHERE a.call_id = c.id AND a.variant = 'raw'
+      )
+    )
+    ORDER BY c.created_at
+  `).all().map(row => (row as { id: string }).id);
+}
+
+export function getWaveformPeaks(callId: string) {
+  const row = db.prepare('SELECT duration, peaks_json FROM call_waveforms WHERE call_id = ?')
+    .get(callId) as { duration: number; peaks_json: string } | null;
+
+  return row ? { duration: row.duration, peaks: JSON.parse(row.peaks_json) as number[][] } : null;
+}
+
+export function saveWaveformPeaks(callId: string, waveform: { duration: number; peaks: number[][] }) {
+  db.prepare(`
+    INSERT OR REPLACE INTO call_waveforms (call_id, duration, peaks_json)
+    VALUES (?, ?, ?)
+  `).run(callId, waveform.duration, JSON.stringify(waveform.peaks));
+}
+
+// WHERE clause for an inclusive UTC date range on one column, plus any
+// other conditions the query needs
+function analyticsWhere(column: string, range: AnalyticsRange, conditions: string[] = []) {
+  const params: Record<string, string> = {};
+  const all = [...conditions];
+
+  if (range.createdFrom) {
+    all.push(`date(${column}) >= $createdFrom`);
+    params.$createdFrom = range.createdFrom;
+  }
+  if (range.createdTo) {
+    all.push(`date(${column}) <= $createdTo`);
+    params.$createdTo = range.createdTo;
+  }
+
+  return { where: all.length > 0 ? `WHERE ${all.join(' AND ')}` : '', params };
+}
+
+export function getCallVolume(range: AnalyticsRange): CallVolume {
+  const { where, params } = analyticsWhere('c.created_at', range);
+
+  const byDay = db.prepare(`
+    SELECT date(c.created_at) as day, COUNT(*) as calls
+    FROM calls c
+    ${where}
+    GROUP BY day
+    ORDER BY day
+  `).all(params) as { day: string; calls: number }[];
+
+  const hours = db.prepare(`
+    SELECT CAST(strftime('%H', c.created_at) AS INTEGER) as hour, COUNT(*) as calls
+    FROM calls c
+    ${where}
+    GROUP BY hour
+  `).all(params) as { hour: number; calls: number }[];
+
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    calls: hours.find(row => row.hour === hour)?.calls ?? 0
+  }));
+
+  return { byDay, byHour };
+}
+
+// p95 is the nearest rank: the shortest duration that at least 95% of calls
+// are no longer than
+export function getDurationStats(range: AnalyticsRange): DurationStats {
+  const { where, params } = analyticsWhere('c.created_at', range);
+
+  const row = db.prepare(`
+    WITH ranked AS (
+      SELECT
+        CAST(c.duration AS INTEGER) as seconds,
+        ROW_NUMBER() OVER (ORDER BY CAST(c.duration AS INTEGER)) as position,
+        COUNT(*) OVER () as total
+      FROM calls c
+      ${where}
+    )
+    SELECT
+      COUNT(*) as calls,
+      AVG(seconds) as average,
+      MIN(CASE WHEN position * 100 >= total * 95 THEN seconds END) as p95
+    FROM ranked
+  `).get(params) as DurationStats;
+
+  return {
+    calls: row.calls,
+    average: row.average === null ? null : Math.round(row.average * 10) / 10,
+    p95: row.p95
+  };
+}
+
+export function getTalkRatio(range: AnalyticsRange): TalkRatio {
+  const { where, params } = analyticsWhere('c.created_at', range, [
+    't.start_time IS NOT NULL',
+    't.end_time IS NOT NULL'
+  ]);
+
+  const row = db.prepare(`
+    SELECT
+      COUNT(DISTINCT t.call_id) as calls,
+      TOTAL(CASE WHEN t.speaker = 'customer' THEN MAX(t.end_time - t.start_time, 0) END) as customerSeconds,
+      TOTAL(CASE WHEN t.speaker = 'assistant' THEN MAX(t.end_time - t.start_time, 0) END) as assistantSeconds
+    FROM transcripts t
+    JOIN calls c ON c.id = t.call_id
+    ${where}
+  `).get(params) as TalkRatio;
+
+  return {
+    calls: row.calls,
+    customerSeconds: Math.round(row.customerSeconds),
+    assistantSeconds: Math.round(row.assistantSeconds)
+  };
+}
+
+// Full numbers; callers mask them before they leave the server
+export function getTopDestinations(range: AnalyticsRange, limit: number): DestinationCount[] {
+  const { where, params } = analyticsWhere('c.created_at', range);
+
+  return db.prepare(`
+    SELECT COALESCE(s.to_number, c.to_number) as number, COUNT(*) as calls
+    FROM calls c
+    LEFT JOIN call_sessions s ON s.call_sid = c.call_sid
+    ${where}
+    GROUP BY number
+    ORDER BY calls DESC, number
+    LIMIT $limit
+  `).all({ ...params, $limit: limit }) as DestinationCount[];
+}
+
+export function getTranscriptionStats(range: AnalyticsRange): TranscriptionStats {
+  const { where, params } = analyticsWhere('created_at', range);
+
+  const rows = db.prepare(`
+    SELECT state, COUNT(*) as jobs FROM jobs ${where} GROUP BY state
+  `).all(params) as { state: JobState; jobs: number }[];
+
+  const count = (state: JobState) => rows.find(row => row.state === state)?.jobs ?? 0;
+  const saved = count('saved');
+  const failed = count('failed');
+  const pending = rows.reduce((sum, row) => sum + row.jobs, 0) - saved - failed;
+
+  return {
+    saved,
+    failed,
+    pending,
+    failureRate: saved + failed > 0 ? failed / (saved + failed) : null
+  };
+}
+
+export function getDroppedCalls(range: AnalyticsRange): DroppedCalls {
+  const { where, params } = analyticsWhere('ended_at', range);
+
+  const rows = db.prepare(`
+    SELECT status, COUNT(*) as calls FROM call_outcomes ${where} GROUP BY status ORDER BY calls DESC
+  `).all(params) as { status: CallStatus; calls: number }[];
+
+  const byStatus = rows.filter(row => DROPPED_STATUSES.includes(row.status));
+
+  return {
+    ended: rows.reduce((sum, row) => sum + row.calls, 0),
+    dropped: byStatus.reduce((sum, row) => sum + row.calls, 0),
+    byStatus
+  };
+}
+
+export function saveCallMetrics(callId: string, metrics: CallMetrics) {
+  db.prepare(`
+    INSERT OR REPLACE INTO call_metrics (
+      call_id, customer_talk_time, assistant_talk_time, longest_silence, overlaps, response_latency, turns
+    )
+    VALUES ($callId, $customerTalkTime, $assistantTalkTime, $longestSilence, $overlaps, $responseLatency, $turns)
+  `).run({
+    $callId: callId,
+    $customerTalkTime: metrics.customerTalkTime,
+    $assistantTalkTime: metrics.assistantTalkTime,
+    $longestSilence: metrics.longestSilence,
+    $overlaps: metrics.overlaps,
+    $responseLatency: metrics.responseLatency ?? null,
+    $turns: metrics.turns
+  });
+}
+
+// Calls saved before metrics existed that have the sentence timings to compute them
+export function getCallsWithoutMetrics() {
+  return db.prepare(`
+    SELECT DISTINCT t.call_id as id FROM transcripts t
+    WHERE t.start_time IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM call_metrics cm WHERE cm.call_id = t.call_id)
+  `).all().map(row => (row as { id: string }).id);
+}
+
+// Turns fetched before the call ended may be missing the rest of the
+// conversation, so they are stale. A call has ended when its final status
+// arrived; without one, when its recording was saved.
+export function getVoiceflowTurns(callId: string) {
+  const row = db.prepare(`
+    SELECT v.client, v.turns_json,
+      julianday(v.fetched_at) < julianday(COALESCE(o.ended_at, c.created_at)) as stale
+    FROM voiceflow_turns v
+    JOIN calls c ON c.id = v.call_id
+    LEFT JOIN call_outcomes o ON o.call_sid = c.call_sid
+    WHERE v.call_id = ?
+  `).get(callId) as { client: string; turns_json: string; stale: number } | null;
+
+  return row
+    ? { client: row.client, turns: JSON.parse(row.turns_json) as VoiceflowTurn[], stale: !!row.stale }
+    : null;
+}
+
+export function saveVoiceflowTurns(callId: string, client: string, turns: VoiceflowTurn[]) {
+  db.prepare(`
+    INSERT OR REPLACE INTO voiceflow_turns (call_id, client, turns_json)
+    VALUES (?, ?, ?)
+  `).run(callId, client, JSON.stringify(turns));
 }
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { MAX_ANALYTICS_DAYS, parseAnalyticsQuery } from "./filters";
+
+const query = (params: Record<string, string>) => parseAnalyticsQuery(new URLSearchParams(params));
+
+describe('parseAnalyticsQuery', () => {
+  test('accepts a range of up to two years', () => {
+    expect(query({ createdFrom: '2024-01-01', createdTo: '2025-12-31' }))
+      .toEqual({ ok: true, range: { createdFrom: '2024-01-01', createdTo: '2025-12-31' } });
+  });
+
+  test('rejects longer ranges', () => {
+    expect(query({ createdFrom: '2024-01-01', createdTo: '2026-01-01' })).toEqual({
+      ok: false,
+      errors: [`The date range must not be longer than ${MAX_ANALYTICS_DAYS} days`]
+    });
+    expect(query({ createdFrom: '0001-01-01', createdTo: '9999-12-31' }).ok).toBe(false);
+  });
+
+  test('accepts open-ended ranges', () => {
+    expect(query({ createdFrom: '0001-01-01' }).ok).toBe(true);
+    expect(query({}).ok).toBe(true);
+  });
+
+  test('rejects reversed and malformed dates', () => {
+    expect(query({ createdFrom: '2025-02-01', createdTo: '2025-01-01' }))
+      .toEqual({ ok: false, errors: ['createdFrom must not be after createdTo'] });
+    expect(query({ createdFrom: '2025-1-1' }))
+      .toEqual({ ok: false, errors: ['createdFrom must be a date in YYYY-MM-DD format'] });
+  });
+});
@@ -0,0 +1,217 @@
+import type {
+  AnalyticsRange,
+  AuditAction,
+  AuditFilters,
+  CallFilters,
+  CallMetric,
+  CallSort
+} from "./types";
+
+const MAX_LIMIT = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The volume chart has a row per day in the range, so keep it to two years
+export const MAX_ANALYTICS_DAYS = 731;
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'view_transcript',
+  'play_audio',
+  'download_audio',
+  'export',
+  'delete',
+  'purge_recording',
+  'set_legal_hold',
+  'release_legal_hold',
+  'reveal_pii'
+];
+
+const CALL_METRICS: CallMetric[] = [
+  'customerTalkTime',
+  'assistantTalkTime',
+  'longestSilence',
+  'overlaps',
+  'responseLatency',
+  'turns'
+];
+
+const SORT_FIELDS: CallSort['field'][] = ['createdAt', 'duration', ...CALL_METRICS];
+
+export type ParsedCallQuery =
+  | { ok: true; page: number; limit: number; filters: CallFilters; sort?: CallSort }
+  | { ok: false; errors: string[] };
+
+export type ParsedAnalyticsQuery =
+  | { ok: true; range: AnalyticsRange }
+  | { ok: false; errors: string[] };
+
+export type ParsedAuditQuery =
+  | { ok: true; page: number; limit: number; filters: AuditFilters }
+  | { ok: false; errors: string[] };
+
+// Typed readers for query parameters that collect every problem in `errors`
+function queryReader(params: URLSearchParams, errors: string[]) {
+  const integer = (name: string, min: number, max = Number.MAX_SAFE_INTEGER) => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(max === Number.MAX_SAFE_INTEGER
+        ? `${name} must be an integer of at least ${min}`
+        : `${name} must be an integer between ${min} and ${max}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const date = (name: string) => {
+    const raw = params.get(name);
+    if (!raw) return undefined;
+    if (!DATE_PATTERN.test(raw) || isNaN(new Date(raw).getTime())) {
+      errors.push(`${name} must be a date in YYYY-MM-DD format`);
+      return undefined;
+    }
+    return raw;
+  };
+
+  const number = (name: string, min: number) => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min) {
+      errors.push(`${name} must be a number of at least ${min}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+
+  const dateRange = () => {
+    const createdFrom = date('createdFrom');
+    const createdTo = date('createdTo');
+    if (createdFrom && createdTo && createdFrom > createdTo) {
+      errors.push('createdFrom must not be after createdTo');
+    }
+    return { createdFrom, createdTo };
+  };
+
+  return {
+    integer,
+    number,
+    text,
+    dateRange,
+    page: () => integer('page', 1) ?? 1,
+    limit: () => integer('limit', 1, MAX_LIMIT) ?? 10
+  };
+}
+
+// Query parameters accepted by GET /calls; anything malformed is reported
+// back as a 400 instead of being silently ignored
+export function parseCallQuery(params: URLSearchParams): ParsedCallQuery {
+  const errors: string[] = [];
+  const read = queryReader(params, errors);
+
+  const page = read.page();
+  const limit = read.limit();
+
+  const direction = read.text('direction');
+  if (direction && direction !== 'inbound' && direction !== 'outbound') {
+    errors.push('direction must be "inbound" or "outbound"');
+  }
+
+  const filters: CallFilters = {
+    search: read.text('search'),
+    ...read.dateRange(),
+    minDuration: read.integer('minDuration', 0),
+    maxDuration: read.integer('maxDuration', 0),
+    fromNumber: read.text('fromNumber'),
+    toNumber: read.text('toNumber'),
+    direction: direction as CallFilters['direction'],
+    customerSaid: read.text('customerSaid'),
+    assistantSaid: read.text('assistantSaid'),
+    sentiment: read.text('sentiment'),
+    topic: read.text('topic'),
+    entity: read.text('entity'),
+    classifier: read.text('classifier')
+  };
+
+  if (
+    filters.minDuration !== undefined &&
+    filters.maxDuration !== undefined &&
+    filters.minDuration > filters.maxDuration
+  ) {
+    errors.push('minDuration must not be greater than maxDuration');
+  }
+
+  // Each metric takes e.g. minOverlaps and maxOverlaps
+  CALL_METRICS.forEach(metric => {
+    const name = metric[0].toUpperCase() + metric.slice(1);
+    const min = read.number(`min${name}`, 0);
+    const max = read.number(`max${name}`, 0);
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`min${name} must not be greater than max${name}`);
+    }
+    if (min !== undefined || max !== undefined) {
+      filters.metrics = { ...filters.metrics, [metric]: { min, max } };
+    }
+  });
+
+  const sortField = read.text('sort');
+  if (sortField && !SORT_FIELDS.includes(sortField as CallSort['field'])) {
+    errors.push(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+  const order = read.text('order') ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    errors.push('order must be "asc" or "desc"');
+  }
+  const sort = sortField ? { field: sortField as CallSort['field'], order: order as CallSort['order'] } : undefined;
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, page, limit, filters, sort };
+}
+
+function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction);
+}
+
+// Query parameters accepted by GET /audit-events
+export function parseAuditQuery(params: URLSearchParams): ParsedAuditQuery {
+  const errors: string[] = [];
+  const read = queryReader(params, errors);
+
+  const page = read.page();
+  const limit = read.limit();
+
+  const action = read.text('action');
+  if (action && !isAuditAction(action)) {
+    errors.push(`action must be one of ${AUDIT_ACTIONS.join(', ')}`);
+  }
+
+  const filters: AuditFilters = {
+    username: read.text('username'),
+    callId: read.text('callId'),
+    action: action as AuditAction | undefined,
+    ...read.dateRange()
+  };
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, page, limit, filters };
+}
+
+// Query parameters accepted by GET /analytics/*
+export function parseAnalyticsQuery(params: URLSearchParams): ParsedAnalyticsQuery {
+  const errors: string[] = [];
+  const range = queryReader(params, errors).dateRange();
+
+  if (range.createdFrom && range.createdTo
+    && (Date.parse(range.createdTo) - Date.parse(range.createdFrom)) / DAY_MS + 1 > MAX_ANALYTICS_DAYS) {
+    errors.push(`The date range must not be longer than ${MAX_ANALYTICS_DAYS} days`);
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, range };
+}
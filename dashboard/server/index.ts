@@ -1,256 +1,406 @@
 import { serve } from "bun";
 import type { ServerWebSocket } from "bun";
 import type {
-  TwilioMedia,
-  TranscriptSentence,
   CallRecord,
+  AudioTrack,
+  AudioVariant,
+  CallStatus,
+  LegalHold,
+  LiveCallMessage,
+  RecordingSettings,
+  SocketData,
+  VisibleCall,
   WebSocketClient
 } from "./types";
-import { saveCalls, getCalls, deleteCall } from "./db";
-
-const TWILIO_ACCOUNT_SID = Bun.env.TWILIO_ACCOUNT_SID;
-const TWILIO_AUTH_TOKEN = Bun.env.TWILIO_AUTH_TOKEN;
-const TWILIO_SERVICE_SID = Bun.env.TWILIO_SERVICE_SID;
-
-if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_SERVICE_SID) {
-  console.error("Missing Twilio credentials");
+import {
+  searchCalls,
+  deleteCall,
+  enqueueRecordingJob,
+  saveCallSession,
+  getCallSession,
+  cleanupStaleSessions,
+  recordCallStatus,
+  markRecordingStarted,
+  cleanupExpiredUserSessions,
+  getCall,
+  getLegalHold,
+  setLegalHold,
+  releaseLegalHold,
+  recordAuditEvents,
+  searchAuditEvents,
+  getTranscriptRedactions
+} from "./db";
+import { validateTwilioRequest } from "./signature";
+import {
+  TWILIO_AUTH_TOKEN,
+  deleteTranscript,
+  injectRecording,
+  registerStatusCallback,
+  startRecording
+} from "./twilio";
+import { startJobWorker } from "./jobs";
+import { resolveRecordingSettings } from "./rules";
+import { parseAnalyticsQuery, parseCallQuery, parseAuditQuery } from "./filters";
+import { toCsv } from "./csv";
+import { getRetentionReport, startRetentionScheduler } from "./retention";
+import { archiveCall, deleteArchivedAudio, startArchiveScheduler } from "./archive";
+import { getCallWaveform, precomputeWaveform } from "./waveform";
+import { ANALYTICS_METRICS } from "./analytics";
+import { backfillCallMetrics } from "./metrics";
+import { getCallVoiceflow, parseVoiceflowWebhook } from "./voiceflow";
+import { fallbackTwiml, resolveVoiceflowTarget } from "./routing";
+import { AUDIO_TRACKS, AUDIO_VARIANTS, audioResponse, getAudio, removeCachedAudio } from "./audio";
+import {
+  isServiceRequest,
+  getRequestRole,
+  getRequestUser,
+  login,
+  loginWithOidc,
+  getSessionUser,
+  logout,
+  bootstrapAdmin
+} from "./auth";
+import { hasRole, visibleCall } from "./roles";
+import { maskPhoneNumber } from "./masking";
+import { redactText } from "./redaction";
+import {
+  isLiveTranscriptionEnabled,
+  mediaStreamUrl,
+  injectMediaStream,
+  handleMediaStreamMessage,
+  closeMediaStream
+} from "./live";
+
+// Set TWILIO_VALIDATE_SIGNATURE=false to accept unsigned webhooks during local development
+const VALIDATE_TWILIO_SIGNATURE = Bun.env.TWILIO_VALIDATE_SIGNATURE !== 'false';
+
+if (VALIDATE_TWILIO_SIGNATURE && !Bun.env.PUBLIC_URL) {
+  console.error("PUBLIC_URL is required to validate Twilio webhook signatures");
   process.exit(1);
 }
 
-async function pollCallStatus(callSid: string) {
-  let attempts = 0;
-  const maxAttempts = 30; // 30 seconds max
-  let isRecordingStarted = false; // Add flag to track recording state
-
-  const interval = setInterval(async () => {
-    try {
-      const response = await fetch(
-        `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
-        {
-          headers: {
-            'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`
-          }
-        }
-      );
+if (!VALIDATE_TWILIO_SIGNATURE) {
+  console.warn('⚠️ Twilio signature validation is disabled. Do not use this setting in production.');
+}
 
-      const data = await response.json();
-      console.log('📱 Call:', {
-        status: data.status,
-        callSid: callSid.slice(-8) // Show last 8 chars instead of 4
-      });
+// Comma-separated origins allowed to call this server from a browser; everything
+// else must go through the dashboard's API routes with the service token
+const CORS_ORIGINS = (Bun.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
 
-      // Start recording when call is in progress and not already recording
-      if (data.status === 'in-progress' && !isRecordingStarted) {
-        isRecordingStarted = true;
-        await startRecording(callSid);
-        clearInterval(interval);
-      }
+function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('origin');
+  if (!origin || !CORS_ORIGINS.includes(origin)) {
+    return {};
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Dashboard-Role, X-Dashboard-User, X-Session-Token',
+    'Vary': 'Origin'
+  };
+}
 
-      // Stop polling if call is completed or failed
-      if (data.status === 'completed' || data.status === 'failed' || ++attempts >= maxAttempts) {
-        clearInterval(interval);
-      }
-    } catch (error) {
-      console.error('Error polling call status:', error);
-      clearInterval(interval);
+function jsonResponse(req: Request, body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders(req)
     }
-  }, 1000);
+  });
 }
 
-async function startRecording(callSid: string) {
-  try {
-    const recordingResponse = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls/${callSid}/Recordings.json`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`,
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: new URLSearchParams({
-          'RecordingStatusCallback': `${process.env.PUBLIC_URL}/recording-status`,
-          'RecordingChannels': 'dual',
-          'RecordingTrack': 'both',
-          'Trim': 'trim-silence'
-        }).toString()
-      }
-    );
-
-    const data = await recordingResponse.json();
-    console.log('🎥 Recording started:', {
-      callSid: data.call_sid.slice(-4),
-      recordingSid: data.sid.slice(-4)
-    });
-  } catch (error) {
-    console.error('Error starting recording:', error);
-  }
+// Exports link to the dashboard's audio route, never to Twilio media URLs
+function audioLink(callId: string, variant: AudioVariant) {
+  const base = (Bun.env.PUBLIC_URL || '').replace(/\/$/, '');
+  return `${base}/api/calls/${encodeURIComponent(callId)}/audio?variant=${variant}`;
 }
 
-async function pollTranscriptStatus(
-  transcriptSid: string,
-  maxAttempts = 10
-): Promise<{ media: TwilioMedia; sentences: TranscriptSentence[] }> {
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      const response = await fetch(`https://intelligence.twilio.com/v2/Transcripts/${transcriptSid}`, {
-        headers: {
-          'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`
-        }
-      });
+function legalHoldResponse(req: Request, hold: LegalHold) {
+  return jsonResponse(req, {
+    error: 'Call is under legal hold',
+    details: `Held by ${hold.by} since ${hold.at}: ${hold.reason}`
+  }, 409);
+}
 
-      if (!response.ok) {
-        console.error('Transcript API error:', {
-          status: response.status,
-          statusText: response.statusText
-        });
-        const errorText = await response.text();
-        console.error('Error response:', errorText);
-        throw new Error(`Transcript API returned ${response.status}`);
-      }
+function isTwilioWebhook(pathname: string) {
+  return pathname.startsWith("/v1/twilio/webhooks/")
+    || pathname === "/recording-status"
+    || pathname === "/call-status"
+    || pathname === "/media-stream";
+}
 
-      const transcript = await response.json();
-      console.log('Raw transcript response:', transcript);
+// Record a call status transition; Voiceflow's webhooks repeat the current
+// status, so only changes are stored
+function handleCallStatus(params: URLSearchParams) {
+  const callSid = params.get('CallSid');
+  const status = params.get('CallStatus') as CallStatus | null;
+  if (!callSid || !status) return;
+
+  const session = getCallSession(callSid);
+  if (!session) {
+    console.warn('Status update for unknown call:', { callSid: callSid.slice(-8), status });
+    return;
+  }
 
-      if (!transcript || !transcript.sid) {
-        console.error('Invalid transcript response:', transcript);
-        throw new Error('Invalid transcript response format');
-      }
+  if (session.status === status) return;
 
-      console.log('🎯 Transcript status:', {
-        transcriptSid: transcript.sid.slice(-8),
-        status: transcript.status
-      });
+  const timestamp = params.get('Timestamp');
+  const parsedTimestamp = timestamp ? new Date(timestamp) : new Date();
+  const sequenceNumber = params.get('SequenceNumber');
 
-      if (transcript.status === 'completed') {
-        // Get PII media URL
-        const mediaResponse = await fetch(transcript.links.media, {
-          headers: {
-            'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`
-          }
-        });
+  recordCallStatus({
+    callSid,
+    status,
+    timestamp: (isNaN(parsedTimestamp.getTime()) ? new Date() : parsedTimestamp).toISOString(),
+    sequenceNumber: sequenceNumber ? parseInt(sequenceNumber) : undefined
+  });
 
-        if (!mediaResponse.ok) {
-          console.error('Media API error:', {
-            status: mediaResponse.status,
-            statusText: mediaResponse.statusText
-          });
-          const errorText = await mediaResponse.text();
-          console.error('Error response:', errorText);
-          throw new Error(`Media API returned ${mediaResponse.status}`);
-        }
+  console.log('📱 Call:', {
+    status,
+    callSid: callSid.slice(-8)
+  });
+}
 
-        const media = await mediaResponse.json();
-        if (!media || !media.media_url) {
-          console.error('Invalid media response:', media);
-          throw new Error('Invalid media response format');
-        }
+// The recording settings for a call, if the recording rules want it recorded
+// and it has not been started yet; a call is only ever recorded once
+function claimRecording(callSid: string, direction: string | null): RecordingSettings | null {
+  const session = getCallSession(callSid);
+  if (!session) return null;
+
+  const settings = resolveRecordingSettings({
+    direction: direction || session.direction,
+    from: session.from_number,
+    to: session.to_number,
+    voiceflowPath: session.voiceflow_path
+  });
+
+  if (!settings.record) {
+    console.log('⏭️ Recording skipped by rules:', { callSid: callSid.slice(-8) });
+    return null;
+  }
 
-        console.log('🔒 PII media available:', {
-          transcriptSid: transcript.sid.slice(-8),
-          mediaUrl: media.media_url
-        });
+  return markRecordingStarted(callSid) ? settings : null;
+}
 
-        // Get conversation transcript
-        const sentencesResponse = await fetch(transcript.links.sentences, {
-          headers: {
-            'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`
-          }
-        });
+// Add before the server definition
+const wsClients = new Set<WebSocketClient>();
 
-        if (!sentencesResponse.ok) {
-          console.error('Sentences API error:', {
-            status: sentencesResponse.status,
-            statusText: sentencesResponse.statusText
-          });
-          const errorText = await sentencesResponse.text();
-          console.error('Error response:', errorText);
-          throw new Error(`Sentences API returned ${sentencesResponse.status}`);
-        }
+const SESSION_TTL_HOURS = parseInt(Bun.env.SESSION_TTL_HOURS || "24");
+const SESSION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
 
-        const { sentences } = await sentencesResponse.json();
-        if (!sentences) {
-          console.error('Invalid sentences response');
-          throw new Error('Invalid sentences response format');
-        }
+type BroadcastPayload = { type: 'new_call'; call: CallRecord } | LiveCallMessage;
+type VisiblePayload = { type: 'new_call'; call: VisibleCall } | LiveCallMessage;
 
-        console.log('📝 Conversation:', sentences);
+// What the dashboard may see of a broadcast; phone numbers are always masked
+// and live speech goes through transcript redaction like the saved transcript
+function visiblePayload(payload: BroadcastPayload): VisiblePayload {
+  if (payload.type === 'new_call') {
+    return { ...payload, call: visibleCall(payload.call) };
+  }
+  if (payload.type === 'live_call') {
+    return { ...payload, from: maskPhoneNumber(payload.from), to: maskPhoneNumber(payload.to) };
+  }
+  return { ...payload, text: redactText(payload.text).text };
+}
 
-        return { media, sentences };
-      }
+// Live transcript text counts as viewing the transcript, audited once per call
+// and dashboard client under the call SID (the call has no ID until it is saved)
+function auditLiveTranscript(client: WebSocketClient, payload: BroadcastPayload) {
+  const { data } = client.socket;
+  if (data.kind !== 'dashboard') return;
+
+  if (payload.type === 'live_call' && payload.status === 'ended') {
+    client.liveCalls.delete(payload.callSid);
+  }
+  if (payload.type !== 'live_transcript' || client.liveCalls.has(payload.callSid)) return;
+
+  client.liveCalls.add(payload.callSid);
+  recordAuditEvents({
+    username: data.username,
+    role: data.role,
+    action: 'view_transcript',
+    callIds: [payload.callSid],
+    details: { live: true }
+  });
+}
 
-      // Wait 2 seconds before next attempt
-      await new Promise(resolve => setTimeout(resolve, 2000));
+function broadcast(payload: BroadcastPayload) {
+  const message = JSON.stringify(visiblePayload(payload));
+
+  wsClients.forEach(client => {
+    if (client.socket.data.kind !== 'dashboard') return;
+    try {
+      auditLiveTranscript(client, payload);
+      client.socket.send(message);
     } catch (error) {
-      console.error('Error in pollTranscriptStatus:', error);
-      if (attempt === maxAttempts - 1) {
-        throw error;
-      }
+      console.error('Error sending WebSocket message:', error);
+      // Remove failed client
+      wsClients.delete(client);
     }
-  }
-  throw new Error('Transcript processing timed out');
+  });
 }
 
-// Add before the server definition
-const wsClients = new Set<WebSocketClient>();
+function broadcastNewCall(call: CallRecord) {
+  console.log('Broadcasting new call to WebSocket clients. Connected clients:', wsClients.size);
+  broadcast({ type: 'new_call', call });
+}
+
+startJobWorker({
+  onCallSaved: (call) => {
+    broadcastNewCall(call);
+    // Archive first so the waveform is read from our own copy
+    archiveCall(call.id).then(() => precomputeWaveform(call.id));
+  }
+});
+
+setInterval(() => {
+  const removed = cleanupStaleSessions(SESSION_TTL_HOURS);
+  if (removed > 0) {
+    console.log('🧹 Removed stale call sessions:', removed);
+  }
+}, SESSION_CLEANUP_INTERVAL_MS);
+
+bootstrapAdmin().catch(error => {
+  console.error('Failed to create the initial admin user:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
 
-// Add this to store call details
-const callDetails = new Map<string, { from: string; to: string }>();
+startRetentionScheduler();
+startArchiveScheduler();
+backfillCallMetrics();
+
+setInterval(() => {
+  const removed = cleanupExpiredUserSessions();
+  if (removed > 0) {
+    console.log('🧹 Removed expired dashboard sessions:', removed);
+  }
+}, SESSION_CLEANUP_INTERVAL_MS);
 
 const PORT = parseInt(Bun.env.BUN_PORT || "3902");
 
 const server = serve({
   port: PORT,
   hostname: "0.0.0.0",
-  async fetch(req: Request) {
+  async fetch(req: Request): Promise<Response | undefined> {
     const url = new URL(req.url);
 
     // Handle CORS preflight requests
     if (req.method === 'OPTIONS') {
       return new Response(null, {
         status: 204,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': '*'
-        }
+        headers: corsHeaders(req)
       });
     }
 
+    // Reject webhooks that were not signed by Twilio with our auth token
+    if (VALIDATE_TWILIO_SIGNATURE && isTwilioWebhook(url.pathname)) {
+      // Media Streams sign the wss:// URL they connect to
+      const publicUrl = url.pathname === "/media-stream"
+        ? Bun.env.PUBLIC_URL!.replace(/^http/, 'ws')
+        : Bun.env.PUBLIC_URL!;
+      const isValid = await validateTwilioRequest(req, TWILIO_AUTH_TOKEN, publicUrl);
+      if (!isValid) {
+        console.warn('🚫 Invalid Twilio signature:', {
+          path: url.pathname,
+          method: req.method
+        });
+        return new Response('Forbidden', { status: 403 });
+      }
+    }
+
     if (url.pathname.startsWith("/v1/twilio/webhooks/")) {
       try {
-        const params = url.searchParams;
+        // Twilio sends webhook parameters in the query string for GET and in a
+        // form body for POST; the body is forwarded to Voiceflow unchanged
+        const body = req.method === 'POST' ? await req.text() : undefined;
+        const params = new URLSearchParams(url.search);
+        if (body && req.headers.get('content-type')?.includes('application/x-www-form-urlencoded')) {
+          new URLSearchParams(body).forEach((value, key) => params.append(key, value));
+        }
         const callSid = params.get('CallSid');
         const from = params.get('From');
         const to = params.get('To');
+        const voiceflow = parseVoiceflowWebhook(url.pathname, params);
+
+        const isNewSession = !!callSid && !getCallSession(callSid);
 
-        // Store call details for later use
+        // Persist call details so the recording job can find them later
         if (callSid && from && to) {
-          callDetails.set(callSid, { from, to });
+          saveCallSession({
+            callSid,
+            from,
+            to,
+            direction: params.get('Direction') || undefined,
+            callerName: params.get('CallerName') || undefined,
+            fromCity: params.get('FromCity') || undefined,
+            fromState: params.get('FromState') || undefined,
+            fromZip: params.get('FromZip') || undefined,
+            fromCountry: params.get('FromCountry') || undefined,
+            voiceflowPath: url.pathname,
+            voiceflow: voiceflow ?? undefined
+          });
+
+          if (isNewSession) {
+            registerStatusCallback(callSid);
+          }
+
+          handleCallStatus(params);
+
+          // Twilio reports no "answered" event for calls we did not create, and
+          // answers an inbound call as it runs the TwiML returned below
+          if (isNewSession && params.get('CallStatus') === 'ringing') {
+            handleCallStatus(new URLSearchParams({ CallSid: callSid, CallStatus: 'in-progress' }));
+          }
         }
 
         // Log initial call details
+        // Phone numbers stay out of the log; the dashboard shows them masked
         console.log('📞 New call:', {
-          from: params.get('From'),
-          to: params.get('To'),
           direction: params.get('Direction'),
           callSid: callSid?.slice(-4) // Show only last 4 chars
         });
 
-        // Start polling for call status if it's an outbound call
-        if (callSid && params.get('Direction') === 'inbound') {
-          pollCallStatus(callSid);
-        }
+        // Forward to the Voiceflow runtime the routes pick (keeping all original query parameters)
+        const target = resolveVoiceflowTarget({ pathname: url.pathname, to, projectId: voiceflow?.projectId });
+        const voiceflowUrl = new URL(target.baseUrl + url.pathname + url.search);
 
-        // Forward to Voiceflow (keeping all original query parameters)
-        const voiceflowUrl = new URL('https://runtime-api.voiceflow.com' + url.pathname + url.search);
+        let twiml: string;
+        try {
+          const response = await fetch(voiceflowUrl.toString(), {
+            method: req.method,
+            headers: {
+              'Accept': 'application/xml',
+              ...(body !== undefined && { 'Content-Type': req.headers.get('content-type') || 'application/x-www-form-urlencoded' })
+            },
+            body,
+            signal: AbortSignal.timeout(target.timeoutMs)
+          });
+          if (!response.ok) {
+            throw new Error(`Voiceflow runtime returned ${response.status}`);
+          }
+          twiml = await response.text();
+        } catch (error) {
+          console.error('⚠️ Voiceflow runtime unreachable, answering with fallback:', {
+            runtime: target.baseUrl,
+            callSid: callSid?.slice(-4),
+            error: error instanceof Error ? error.message : error
+          });
+          return new Response(fallbackTwiml(target), {
+            headers: { 'Content-Type': 'application/xml' }
+          });
+        }
 
-        const response = await fetch(voiceflowUrl.toString(), {
-          method: 'GET',
-          headers: { 'Accept': 'application/xml' }
-        });
+        // Start recording once per call, on its first webhook
+        const recording = isNewSession && callSid ? claimRecording(callSid, params.get('Direction')) : null;
+        if (recording) {
+          twiml = injectRecording(twiml, recording);
+        }
 
-        const twiml = await response.text();
-        // console.log('TwiML Response:', twiml);
+        // Start the live audio fork once per call, on its first webhook
+        if (isNewSession && isLiveTranscriptionEnabled() && Bun.env.PUBLIC_URL) {
+          twiml = injectMediaStream(twiml, mediaStreamUrl(Bun.env.PUBLIC_URL));
+        }
 
         return new Response(twiml, {
           headers: { 'Content-Type': 'application/xml' }
@@ -261,6 +411,45 @@ const server = serve({
       }
     }
 
+    if (url.pathname === "/call-status" && req.method === 'POST') {
+      try {
+        const params = new URLSearchParams(await req.text());
+        const callSid = params.get('CallSid');
+        const from = params.get('From');
+        const to = params.get('To');
+
+        if (!callSid || !params.get('CallStatus')) {
+          return new Response('Missing CallSid or CallStatus', { status: 400 });
+        }
+
+        // Outbound calls can report "initiated" before any voice webhook arrives
+        if (from && to) {
+          saveCallSession({
+            callSid,
+            from,
+            to,
+            direction: params.get('Direction') || undefined
+          });
+        }
+
+        handleCallStatus(params);
+
+        // Calls created with StatusCallbackEvent=answered can report it before
+        // their first webhook; otherwise the webhook has already started recording
+        const recording = params.get('CallStatus') === 'in-progress'
+          ? claimRecording(callSid, params.get('Direction'))
+          : null;
+        if (recording) {
+          startRecording(callSid, recording);
+        }
+
+        return new Response('OK');
+      } catch (error) {
+        console.error('Error in call status:', error);
+        return new Response('Internal Server Error', { status: 500 });
+      }
+    }
+
     if (url.pathname === "/recording-status") {
       console.log('📞 Received recording status webhook:', {
         url: req.url,
@@ -270,9 +459,7 @@ const server = serve({
 
       try {
         const formData = await req.formData();
-        const formDataObj = Object.fromEntries(formData.entries());
-        console.log('📝 Recording status data:', formDataObj);
-        const recordingSid = formData.get('RecordingSid');
+        const recordingSid = formData.get('RecordingSid') as string | null;
 
         if (!recordingSid) {
           console.error('Missing RecordingSid in webhook data');
@@ -285,114 +472,16 @@ const server = serve({
           duration: formData.get('RecordingDuration')
         });
 
-        // Start Voice Intelligence processing
-        let media: TwilioMedia;
-        let sentences: TranscriptSentence[];
-
-        try {
-          // Create transcript with PII redaction
-          const transcriptResponse = await fetch('https://intelligence.twilio.com/v2/Transcripts', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`,
-              'Content-Type': 'application/x-www-form-urlencoded'
-            },
-            body: new URLSearchParams({
-              'ServiceSid': TWILIO_SERVICE_SID,
-              'Channel': JSON.stringify({
-                media_properties: {
-                  source_sid: recordingSid
-                }
-              })
-            }).toString()
-          });
-
-          if (!transcriptResponse.ok) {
-            console.error('Failed to create transcript:', {
-              status: transcriptResponse.status,
-              statusText: transcriptResponse.statusText
-            });
-            const errorText = await transcriptResponse.text();
-            console.error('Error response:', errorText);
-            throw new Error(`Failed to create transcript: ${transcriptResponse.status}`);
-          }
-
-          const transcript = await transcriptResponse.json();
-          if (!transcript || !transcript.sid) {
-            console.error('Invalid transcript creation response:', transcript);
-            throw new Error('Invalid transcript creation response');
-          }
-
-          console.log('🎯 Transcript created:', {
-            transcriptSid: transcript.sid.slice(-8),
-            status: transcript.status
-          });
-
-          // Poll for transcript completion and media URL
-          ({ media, sentences } = await pollTranscriptStatus(transcript.sid));
-
-          // Now we can use media and sentences
-          const callSid = formData.get('CallSid') as string;
-          const storedDetails = callDetails.get(callSid);
-
-          if (!storedDetails) {
-            console.error('No stored details found for call:', callSid);
-          }
+        // Twilio only needs an acknowledgement; the job worker does the rest
+        const isNew = enqueueRecordingJob({
+          callSid: formData.get('CallSid') as string,
+          recordingSid,
+          recordingUrl: formData.get('RecordingUrl') as string,
+          duration: formData.get('RecordingDuration') as string
+        });
 
-          const newCall: CallRecord = {
-            id: transcript.sid,
-            from: storedDetails?.from || '',
-            to: storedDetails?.to || '',
-            from_number: storedDetails?.from || '',
-            to_number: storedDetails?.to || '',
-            duration: formData.get('RecordingDuration') as string,
-            recordingUrl: formData.get('RecordingUrl') as string,
-            piiUrl: media.media_url,
-            createdAt: new Date().toISOString(),
-            transcript: sentences.map(s => ({
-              speaker: s.media_channel === 1 ? 'customer' as const : 'assistant' as const,
-              text: s.transcript
-            }))
-          };
-
-          console.log('Saving call with data:', newCall);
-
-          // Save to database
-          try {
-            console.log('About to save call with phone numbers:', {
-              from: storedDetails?.from,
-              to: storedDetails?.to
-            });
-            await saveCalls({
-              ...newCall,
-              from_number: storedDetails?.from || '',
-              to_number: storedDetails?.to || ''
-            }, transcript.sid);
-
-            // Broadcast to all connected WebSocket clients after successful save
-            console.log('Broadcasting new call to WebSocket clients. Connected clients:', wsClients.size);
-            wsClients.forEach(client => {
-              try {
-                const message = JSON.stringify({
-                  type: 'new_call',
-                  call: newCall
-                });
-                console.log('Sending WebSocket message:', message);
-                client.socket.send(message);
-                console.log('WebSocket message sent successfully');
-              } catch (error) {
-                console.error('Error sending WebSocket message:', error);
-                // Remove failed client
-                wsClients.delete(client);
-              }
-            });
-          } catch (error) {
-            console.error('Error saving call:', error);
-            throw error;
-          }
-        } catch (error) {
-          console.error('Error processing Voice Intelligence:', error);
-          throw error;
+        if (!isNew) {
+          console.log('Recording already queued, ignoring retry:', recordingSid.slice(-8));
         }
 
         return new Response('OK');
@@ -410,87 +499,500 @@ const server = serve({
     if (url.pathname === "/health") {
       return new Response('Server is running', {
         status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': '*'
-        }
+        headers: corsHeaders(req)
       });
     }
 
+    // Everything below is for the dashboard and requires the shared service token
+    if (!isTwilioWebhook(url.pathname) && !isServiceRequest(req)) {
+      return jsonResponse(req, { error: 'Unauthorized', details: 'Missing or invalid service token' }, 401);
+    }
+
+    const role = getRequestRole(req);
+
+    if (url.pathname === "/auth/login" && req.method === "POST") {
+      const { username, password } = await req.json().catch(() => ({}));
+      if (typeof username !== 'string' || typeof password !== 'string') {
+        return jsonResponse(req, { error: 'Invalid request', details: 'username and password are required' }, 400);
+      }
+
+      const session = await login(username, password);
+      if (!session) {
+        console.warn('🔒 Failed dashboard login:', { username });
+        return jsonResponse(req, { error: 'Invalid credentials', details: 'Unknown user or wrong password' }, 401);
+      }
+
+      console.log('🔓 Dashboard login:', { username, role: session.user.role });
+      return jsonResponse(req, session);
+    }
+
+    // The dashboard completes the OIDC flow itself and hands us the verified identity
+    if (url.pathname === "/auth/oidc" && req.method === "POST") {
+      const { subject, username } = await req.json().catch(() => ({}));
+      if (typeof subject !== 'string' || !subject || typeof username !== 'string' || !username) {
+        return jsonResponse(req, { error: 'Invalid request', details: 'subject and username are required' }, 400);
+      }
+
+      const session = loginWithOidc(subject, username);
+      if (!session) {
+        return jsonResponse(req, { error: 'Username taken', details: `${username} already belongs to another account` }, 409);
+      }
+
+      console.log('🔓 Dashboard OIDC login:', { username, role: session.user.role });
+      return jsonResponse(req, session);
+    }
+
+    if (url.pathname === "/auth/session") {
+      const token = req.headers.get('x-session-token');
+      const user = token ? getSessionUser(token) : null;
+      if (!user) {
+        return jsonResponse(req, { error: 'Unauthorized', details: 'Session expired or invalid' }, 401);
+      }
+      return jsonResponse(req, { user });
+    }
+
+    if (url.pathname === "/auth/logout" && req.method === "POST") {
+      const token = req.headers.get('x-session-token');
+      if (token) {
+        logout(token);
+      }
+      return new Response(null, { status: 204, headers: corsHeaders(req) });
+    }
+
     if (url.pathname === "/calls") {
-      const searchParams = url.searchParams;
-      const page = parseInt(searchParams.get('page') || '1');
-      const limit = parseInt(searchParams.get('limit') || '10');
-      const search = searchParams.get('search') || '';
-
-      // Get fresh data from database
-      let filteredCalls = getCalls();
-
-      // Apply search filter
-      if (search) {
-        filteredCalls = filteredCalls.filter(call =>
-          call.from_number.includes(search) ||
-          call.to_number.includes(search) ||
-          call.transcript.some(t => t.text.toLowerCase().includes(search.toLowerCase()))
-        );
+      const query = parseCallQuery(url.searchParams);
+      if (!query.ok) {
+        return jsonResponse(req, {
+          error: 'Invalid query parameters',
+          details: query.errors.join('; ')
+        }, 400);
       }
 
-      // Apply pagination
-      const start = (page - 1) * limit;
-      const paginatedCalls = filteredCalls.slice(start, start + limit);
-      const total = filteredCalls.length;
+      const { page, limit, filters, sort } = query;
+
+      // Filtering, ranking and pagination all happen in SQLite
+      const { calls, total } = searchCalls({ filters, sort, page, limit });
 
-      return new Response(JSON.stringify({
-        calls: paginatedCalls,
+      return jsonResponse(req, {
+        calls: calls.map(call => visibleCall(call)),
         pagination: {
           total,
           pages: Math.ceil(total / limit),
           currentPage: page,
           limit
         }
-      }), {
+      });
+    }
+
+    // The calls of one page of the list, as a file; each exported call is audited
+    if (url.pathname === "/calls/export" && req.method === "GET") {
+      const user = getRequestUser(req);
+      if (!user) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
+      const format = url.searchParams.get('format') || 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        return jsonResponse(req, { error: 'Invalid query parameters', details: 'format must be "csv" or "json"' }, 400);
+      }
+      const query = parseCallQuery(url.searchParams);
+      if (!query.ok) {
+        return jsonResponse(req, {
+          error: 'Invalid query parameters',
+          details: query.errors.join('; ')
+        }, 400);
+      }
+
+      const { page, limit, filters, sort } = query;
+      const { calls } = searchCalls({ filters, sort, page, limit });
+      // Audio is linked through the dashboard, which checks the reader's role
+      const canPlayRaw = hasRole(user.role, 'reviewer');
+      const exported = calls.map(call => ({
+        ...visibleCall(call),
+        audio: {
+          redacted: audioLink(call.id, 'redacted'),
+          raw: canPlayRaw ? audioLink(call.id, 'raw') : undefined
+        },
+        transcript: call.transcript
+      }));
+
+      recordAuditEvents({ ...user, action: 'export', callIds: calls.map(call => call.id), details: { format } });
+
+      const filename = `calls_export_${new Date().toISOString().split('T')[0]}.${format}`;
+      const body = format === 'json'
+        ? JSON.stringify(exported, null, 2)
+        : toCsv(
+          ['ID', 'From', 'To', 'Duration', 'Audio', 'Raw audio', 'Transcript'],
+          exported.map(call => [
+            call.id,
+            call.from,
+            call.to,
+            call.duration,
+            call.audio.redacted,
+            call.audio.raw,
+            call.transcript.map(line => `${line.speaker}: ${line.text}`).join(' | ')
+          ])
+        );
+
+      return new Response(body, {
         headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+          'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          ...corsHeaders(req)
         }
       });
     }
 
+    // One call's transcript; the call list leaves transcripts out so every read is audited
+    const transcriptMatch = url.pathname.match(/^\/calls\/([^/]+)\/transcript$/);
+    if (transcriptMatch && req.method === "GET") {
+      const user = getRequestUser(req);
+      if (!user) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
+      const id = decodeURIComponent(transcriptMatch[1]);
+      const call = getCall(id);
+      if (!call) {
+        return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+      }
+
+      recordAuditEvents({ ...user, action: 'view_transcript', callIds: [id] });
+      return jsonResponse(req, { transcript: call.transcript });
+    }
+
+    // Audio is fetched from Twilio with the stored SIDs and served from the local
+    // cache, so the browser never sees (possibly expired) Twilio media URLs
+    const audioMatch = url.pathname.match(/^\/calls\/([^/]+)\/audio$/);
+    if (audioMatch && req.method === "GET") {
+      const variant = (url.searchParams.get('variant') || 'redacted') as AudioVariant;
+      if (!AUDIO_VARIANTS.includes(variant)) {
+        return jsonResponse(req, { error: 'Invalid query parameters', details: 'variant must be "redacted" or "raw"' }, 400);
+      }
+      const track = (url.searchParams.get('track') || 'mixed') as AudioTrack;
+      if (!AUDIO_TRACKS.includes(track)) {
+        return jsonResponse(req, { error: 'Invalid query parameters', details: `track must be one of ${AUDIO_TRACKS.join(', ')}` }, 400);
+      }
+
+      const user = getRequestUser(req);
+      if (!user || !hasRole(user.role, variant === 'raw' ? 'reviewer' : 'viewer')) {
+        return jsonResponse(req, {
+          error: 'Forbidden',
+          details: variant === 'raw' ? 'The raw recording requires the reviewer role' : 'A dashboard user is required'
+        }, 403);
+      }
+
+      const id = decodeURIComponent(audioMatch[1]);
+
+      let result;
+      try {
+        result = await getAudio(id, variant, track);
+      } catch (error) {
+        console.error('Error fetching audio:', { id, variant, track, error });
+        return jsonResponse(req, {
+          error: 'Failed to fetch audio',
+          details: error instanceof Error ? error.message : String(error)
+        }, 502);
+      }
+
+      if (!result.ok) {
+        return jsonResponse(req, { error: result.error, details: result.details }, result.status);
+      }
+
+      // A player asks for the start of the file once per playback and for other
+      // ranges when seeking; only the first request counts as playing it
+      const download = url.searchParams.get('download') === '1';
+      const range = req.headers.get('range');
+      if (download) {
+        recordAuditEvents({ ...user, action: 'download_audio', callIds: [id], details: { variant, track } });
+      } else if (!range || /^bytes=0-/.test(range)) {
+        recordAuditEvents({ ...user, action: 'play_audio', callIds: [id], details: { variant, track } });
+      }
+
+      return audioResponse(req, result.entry, { download, headers: corsHeaders(req) });
+    }
+
+    // Full phone numbers of one call, for reviewers who need to call back
+    const phoneNumbersMatch = url.pathname.match(/^\/calls\/([^/]+)\/phone-numbers$/);
+    if (phoneNumbersMatch && req.method === "GET") {
+      const user = getRequestUser(req);
+      if (!user || !hasRole(user.role, 'reviewer')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Revealing phone numbers requires the reviewer role' }, 403);
+      }
+
+      const id = decodeURIComponent(phoneNumbersMatch[1]);
+      const call = getCall(id);
+      if (!call) {
+        return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+      }
+
+      recordAuditEvents({ ...user, action: 'reveal_pii', callIds: [id], details: { field: 'phone_numbers' } });
+      return jsonResponse(req, { from: call.from_number, to: call.to_number });
+    }
+
+    // The originals behind the transcript's redaction tokens
+    const redactionsMatch = url.pathname.match(/^\/calls\/([^/]+)\/redactions$/);
+    if (redactionsMatch && req.method === "GET") {
+      const user = getRequestUser(req);
+      if (!user || !hasRole(user.role, 'reviewer')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Redacted transcript text requires the reviewer role' }, 403);
+      }
+
+      const id = decodeURIComponent(redactionsMatch[1]);
+      if (!getCall(id)) {
+        return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+      }
+
+      recordAuditEvents({ ...user, action: 'reveal_pii', callIds: [id], details: { field: 'transcript' } });
+      return jsonResponse(req, { redactions: getTranscriptRedactions(id) });
+    }
+
+    // Peaks per channel and PII redaction regions for the call player
+    const waveformMatch = url.pathname.match(/^\/calls\/([^/]+)\/waveform$/);
+    if (waveformMatch && req.method === "GET") {
+      if (!getRequestUser(req)) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
+      const id = decodeURIComponent(waveformMatch[1]);
+
+      let result;
+      try {
+        result = await getCallWaveform(id);
+      } catch (error) {
+        console.error('Error computing waveform:', { id, error });
+        return jsonResponse(req, {
+          error: 'Failed to compute waveform',
+          details: error instanceof Error ? error.message : String(error)
+        }, 502);
+      }
+
+      if (!result.ok) {
+        return jsonResponse(req, { error: result.error, details: result.details }, result.status);
+      }
+      return jsonResponse(req, result.waveform);
+    }
+
+    // The Voiceflow turns of a call, to show next to the Twilio transcript
+    const voiceflowMatch = url.pathname.match(/^\/calls\/([^/]+)\/voiceflow$/);
+    if (voiceflowMatch && req.method === "GET") {
+      const user = getRequestUser(req);
+      if (!user) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
+      const id = decodeURIComponent(voiceflowMatch[1]);
+
+      let result;
+      try {
+        result = await getCallVoiceflow(id);
+      } catch (error) {
+        console.error('Error fetching Voiceflow transcript:', { id, error });
+        return jsonResponse(req, {
+          error: 'Failed to fetch Voiceflow transcript',
+          details: error instanceof Error ? error.message : String(error)
+        }, 502);
+      }
+
+      if (!result.ok) {
+        return jsonResponse(req, { error: result.error, details: result.details }, result.status);
+      }
+
+      // The turns hold what the caller said, so reading them is a transcript view
+      recordAuditEvents({ ...user, action: 'view_transcript', callIds: [id], details: { voiceflow: true } });
+      return jsonResponse(req, result.voiceflow);
+    }
+
+    const legalHoldMatch = url.pathname.match(/^\/calls\/([^/]+)\/legal-hold$/);
+    if (legalHoldMatch && (req.method === "PUT" || req.method === "DELETE")) {
+      const user = getRequestUser(req);
+      if (!user || !hasRole(user.role, 'admin')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Only admins can change legal holds' }, 403);
+      }
+
+      const id = decodeURIComponent(legalHoldMatch[1]);
+
+      if (req.method === "PUT") {
+        const { reason } = await req.json().catch(() => ({}));
+        if (typeof reason !== 'string' || !reason.trim()) {
+          return jsonResponse(req, { error: 'Invalid request', details: 'A reason is required' }, 400);
+        }
+        if (!setLegalHold(id, { by: user.username, reason: reason.trim() })) {
+          return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+        }
+        recordAuditEvents({ ...user, action: 'set_legal_hold', callIds: [id], details: { reason: reason.trim() } });
+        console.log('⚖️ Legal hold set:', { id, user: user.username });
+      } else {
+        if (!releaseLegalHold(id)) {
+          return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+        }
+        recordAuditEvents({ ...user, action: 'release_legal_hold', callIds: [id] });
+        console.log('⚖️ Legal hold released:', { id, user: user.username });
+      }
+
+      return jsonResponse(req, { legalHold: getLegalHold(id) });
+    }
+
     // Add delete endpoint
     if (url.pathname.startsWith("/calls/") && req.method === "DELETE") {
+      const user = getRequestUser(req);
+      if (!user || !hasRole(user.role, 'admin')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Only admins can delete calls' }, 403);
+      }
+
       const id = url.pathname.split("/calls/")[1]?.split("?")[0]?.split("/")[0];
       if (!id) {
         return new Response("Missing call ID", { status: 400 });
       }
 
-      const success = await deleteCall(id);
-      return new Response(null, {
-        status: success ? 200 : 404,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+      const call = getCall(id);
+      if (!call) {
+        return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+      }
+      // Refuse before anything is removed from Twilio
+      if (call.legalHold) {
+        return legalHoldResponse(req, call.legalHold);
+      }
+
+      // Try to delete from Twilio first, but don't fail if it errors
+      try {
+        await deleteTranscript(id);
+      } catch (error) {
+        console.warn('Warning: Failed to delete transcript from Twilio. Continuing with local deletion.', error);
+      }
+
+      try {
+        const result = await deleteCall(id);
+        if (result === 'legal_hold') {
+          return legalHoldResponse(req, getLegalHold(id)!);
+        }
+        if (result === 'not_found') {
+          return jsonResponse(req, { error: 'Call not found', details: `No call with ID ${id}` }, 404);
+        }
+      } catch (error) {
+        return jsonResponse(req, {
+          error: 'Failed to delete call',
+          details: error instanceof Error ? error.message : String(error)
+        }, 500);
+      }
+
+      removeCachedAudio(id);
+      await deleteArchivedAudio(id);
+      recordAuditEvents({ ...user, action: 'delete', callIds: [id] });
+      console.log('🗑️ Call deleted:', { id, user: user.username });
+      return new Response(null, { status: 200, headers: corsHeaders(req) });
+    }
+
+    // Aggregates for the analytics page, e.g. /analytics/volume?createdFrom=2025-01-01
+    const analyticsMatch = url.pathname.match(/^\/analytics\/([a-z-]+)$/);
+    if (analyticsMatch && req.method === "GET") {
+      if (!getRequestUser(req)) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
+      const metric = ANALYTICS_METRICS[analyticsMatch[1]];
+      if (!metric) {
+        return jsonResponse(req, {
+          error: 'Unknown metric',
+          details: `Expected one of: ${Object.keys(ANALYTICS_METRICS).join(', ')}`
+        }, 404);
+      }
+
+      const query = parseAnalyticsQuery(url.searchParams);
+      if (!query.ok) {
+        return jsonResponse(req, {
+          error: 'Invalid query parameters',
+          details: query.errors.join('; ')
+        }, 400);
+      }
+
+      return jsonResponse(req, metric(query.range));
+    }
+
+    // Dry run of the retention rules: what the next scheduled purge would delete
+    if (url.pathname === "/retention/report") {
+      if (!hasRole(role, 'admin')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Only admins can view the retention report' }, 403);
+      }
+      return jsonResponse(req, getRetentionReport());
+    }
+
+    if (url.pathname === "/audit-events") {
+      if (!hasRole(role, 'admin')) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'Only admins can read the audit log' }, 403);
+      }
+
+      const query = parseAuditQuery(url.searchParams);
+      if (!query.ok) {
+        return jsonResponse(req, {
+          error: 'Invalid query parameters',
+          details: query.errors.join('; ')
+        }, 400);
+      }
+
+      const { page, limit, filters } = query;
+
+      if (url.searchParams.get('format') === 'csv') {
+        const { events } = searchAuditEvents({ filters });
+        const csv = toCsv(
+          ['Time', 'User', 'Role', 'Action', 'Call ID', 'Details'],
+          events.map(event => [
+            event.createdAt,
+            event.username,
+            event.role,
+            event.action,
+            event.callId,
+            event.details ? JSON.stringify(event.details) : ''
+          ])
+        );
+        return new Response(csv, {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="audit_events_${new Date().toISOString().split('T')[0]}.csv"`,
+            ...corsHeaders(req)
+          }
+        });
+      }
+
+      const { events, total } = searchAuditEvents({ filters, page, limit });
+      return jsonResponse(req, {
+        events,
+        pagination: {
+          total,
+          pages: Math.ceil(total / limit),
+          currentPage: page,
+          limit
         }
       });
     }
 
+    // Twilio Media Streams connect here with the live call audio
+    if (url.pathname === "/media-stream") {
+      const upgraded = server.upgrade(req, { data: { kind: 'media-stream' } });
+      if (upgraded) {
+        return undefined;
+      }
+      return new Response('Expected Upgrade: WebSocket', { status: 426 });
+    }
+
     // Add new WebSocket endpoint
     if (url.pathname === "/ws") {
+      const user = getRequestUser(req);
+      if (!user) {
+        return jsonResponse(req, { error: 'Forbidden', details: 'A dashboard user is required' }, 403);
+      }
+
       console.log('Received WebSocket upgrade request:', {
         url: req.url,
-        headers: Object.fromEntries(req.headers.entries())
+        user: req.headers.get('x-dashboard-user'),
+        role
       });
 
       // Add CORS headers for WebSocket upgrade
       if (req.method === 'OPTIONS') {
         return new Response(null, {
           status: 204,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-            'Access-Control-Allow-Headers': '*',
-            'Access-Control-Allow-Private-Network': 'true'
-          }
+          headers: corsHeaders(req)
         });
       }
 
@@ -499,22 +1001,14 @@ const server = serve({
       if (!upgradeHeader || upgradeHeader !== 'websocket') {
         return new Response('Expected Upgrade: WebSocket', {
           status: 426,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-            'Access-Control-Allow-Headers': '*',
-            'Access-Control-Allow-Private-Network': 'true'
-          }
+          headers: corsHeaders(req)
         });
       }
 
       const success = server.upgrade(req, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': '*',
-          'Access-Control-Allow-Private-Network': 'true'
-        }
+        data: { kind: 'dashboard', ...user },
+        // Bun rejects an empty plain object here, which is what non-CORS requests get
+        headers: new Headers(corsHeaders(req))
       });
       console.log('WebSocket upgrade result:', success);
 
@@ -524,28 +1018,30 @@ const server = serve({
       }
       return new Response("WebSocket upgrade failed", {
         status: 400,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': '*',
-          'Access-Control-Allow-Private-Network': 'true'
-        }
+        headers: corsHeaders(req)
       });
     }
 
     return new Response("Not Found", { status: 404 });
   },
   websocket: {
-    open(ws: ServerWebSocket<unknown>) {
+    open(ws: ServerWebSocket<SocketData>) {
+      if (ws.data.kind === 'media-stream') return;
+
       console.log('New WebSocket client connected', {
         remoteAddress: ws.remoteAddress,
         readyState: ws.readyState,
         data: ws.data
       });
-      wsClients.add({ socket: ws, timestamp: Date.now() });
+      wsClients.add({ socket: ws, timestamp: Date.now(), liveCalls: new Set() });
       console.log('Total connected clients:', wsClients.size);
     },
-    message(ws: ServerWebSocket<unknown>, message: string) {
+    message(ws: ServerWebSocket<SocketData>, message: string) {
+      if (ws.data.kind === 'media-stream') {
+        handleMediaStreamMessage(ws, message, broadcast);
+        return;
+      }
+
       // Log the message and send an acknowledgment
       console.log('Received WebSocket message:', {
         message,
@@ -554,7 +1050,12 @@ const server = serve({
       });
       ws.send(JSON.stringify({ type: 'ack', message: 'Message received' }));
     },
-    close(ws: ServerWebSocket<unknown>) {
+    close(ws: ServerWebSocket<SocketData>) {
+      if (ws.data.kind === 'media-stream') {
+        closeMediaStream(ws, broadcast);
+        return;
+      }
+
       console.log('WebSocket client disconnected', {
         remoteAddress: ws.remoteAddress,
         readyState: ws.readyState
@@ -0,0 +1,80 @@
+import type { CallInsights, TwilioOperatorResult } from "./types";
+import { redactText } from "./redaction";
+
+// Topic classifiers report a probability per label; these are the ones we keep
+const TOPIC_THRESHOLD = 0.5;
+
+const isSentiment = (result: TwilioOperatorResult) => /sentiment/i.test(result.name);
+const isTopic = (result: TwilioOperatorResult) => /topic/i.test(result.name);
+const isClassifier = (result: TwilioOperatorResult) =>
+  result.operator_type === 'conversation-classify' || result.operator_type === 'utterance-classify';
+
+function toNumber(value: number | string | null | undefined) {
+  if (value === null || value === undefined) return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+// A conversation classifier has one label; an utterance classifier labels each
+// utterance, and the most common label stands for the call
+function predictedLabel(result: TwilioOperatorResult) {
+  if (result.predicted_label) {
+    return { label: result.predicted_label, probability: toNumber(result.predicted_probability) };
+  }
+
+  const counts = new Map<string, number>();
+  (result.utterance_results ?? []).forEach(utterance => {
+    if (utterance.predicted_label) {
+      counts.set(utterance.predicted_label, (counts.get(utterance.predicted_label) ?? 0) + 1);
+    }
+  });
+
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  const [label, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return label ? { label, probability: count! / total } : null;
+}
+
+function topicsFrom(result: TwilioOperatorResult) {
+  const topics = Object.entries(result.label_probabilities ?? {})
+    .filter(([, probability]) => (toNumber(probability) ?? 0) >= TOPIC_THRESHOLD)
+    .map(([label]) => label);
+  if (result.predicted_label && !topics.includes(result.predicted_label)) {
+    topics.unshift(result.predicted_label);
+  }
+  return topics;
+}
+
+// Operators see the transcript as Twilio has it, so free text they produce
+// goes through our own redaction before it is stored. PII extraction
+// operators are skipped altogether.
+export function toCallInsights(results: TwilioOperatorResult[]): CallInsights {
+  const insights: CallInsights = { topics: [], entities: [], classifiers: [] };
+
+  for (const result of results) {
+    if (result.operator_type === 'text-generation') {
+      const text = result.text_generation_results?.result;
+      if (text && (!insights.summary || /summary/i.test(result.name))) {
+        insights.summary = redactText(text).text;
+      }
+    } else if (result.operator_type === 'extract' || result.operator_type === 'extract-normalize') {
+      Object.entries(result.extract_results ?? {}).forEach(([type, values]) => {
+        values.forEach(value => insights.entities.push({ type, value: redactText(value).text }));
+      });
+    } else if (isClassifier(result) && isSentiment(result)) {
+      const prediction = predictedLabel(result);
+      if (prediction) {
+        insights.sentiment = prediction.label.toLowerCase();
+        insights.sentimentScore = prediction.probability;
+      }
+    } else if (isClassifier(result) && isTopic(result)) {
+      insights.topics.push(...topicsFrom(result));
+    } else if (isClassifier(result)) {
+      const prediction = predictedLabel(result);
+      if (prediction) {
+        insights.classifiers.push({ name: result.name, ...prediction });
+      }
+    }
+  }
+
+  return insights;
+}
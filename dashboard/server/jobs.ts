@@ -0,0 +1,191 @@
+import type { CallRecord, JobState, RecordingJob } from "./types";
+import {
+  countPendingJobs,
+  getCall,
+  getCallSession,
+  getDueJobs,
+  saveJobCall,
+  updateJob
+} from "./db";
+import {
+  createTranscript,
+  fetchTranscript,
+  fetchOperatorResults,
+  fetchTranscriptMedia,
+  fetchTranscriptSentences
+} from "./twilio";
+import { toCallInsights } from "./insights";
+import { computeCallMetrics } from "./metrics";
+import { redactTranscript } from "./redaction";
+
+const MAX_ATTEMPTS = parseInt(Bun.env.JOB_MAX_ATTEMPTS || "20");
+const BASE_DELAY_SECONDS = 2;
+const MAX_DELAY_SECONDS = 300;
+const TICK_INTERVAL_MS = 1000;
+
+interface JobWorkerOptions {
+  onCallSaved: (call: CallRecord) => void;
+}
+
+// Exponential backoff: 2s, 4s, 8s... capped at 5 minutes
+function backoffSeconds(attempts: number) {
+  return Math.min(BASE_DELAY_SECONDS * 2 ** attempts, MAX_DELAY_SECONDS);
+}
+
+function retryJob(job: RecordingJob, reason: string) {
+  const attempts = job.attempts + 1;
+
+  if (attempts >= MAX_ATTEMPTS) {
+    console.error('❌ Job failed permanently:', {
+      jobId: job.id,
+      recordingSid: job.recording_sid.slice(-8),
+      state: job.state,
+      reason
+    });
+    updateJob(job.id, { state: 'failed', attempts, lastError: reason });
+    return;
+  }
+
+  updateJob(job.id, {
+    state: job.state,
+    attempts,
+    lastError: reason,
+    delaySeconds: backoffSeconds(attempts)
+  });
+}
+
+function advanceJob(job: RecordingJob, state: JobState) {
+  updateJob(job.id, { state, attempts: 0, delaySeconds: 0 });
+}
+
+async function runJob(job: RecordingJob, options: JobWorkerOptions) {
+  switch (job.state) {
+    case 'recording_received': {
+      const transcript = await createTranscript(job.recording_sid);
+      // Give Voice Intelligence a moment before the first status check
+      updateJob(job.id, {
+        state: 'transcribing',
+        attempts: 0,
+        transcriptSid: transcript.sid,
+        delaySeconds: BASE_DELAY_SECONDS
+      });
+      return;
+    }
+
+    case 'transcribing': {
+      const transcript = await fetchTranscript(job.transcript_sid!);
+
+      if (transcript.status === 'failed' || transcript.status === 'canceled') {
+        updateJob(job.id, {
+          state: 'failed',
+          attempts: job.attempts,
+          lastError: `Transcript ${transcript.status}`
+        });
+        return;
+      }
+
+      if (transcript.status !== 'completed') {
+        retryJob(job, `Transcript status: ${transcript.status}`);
+        return;
+      }
+
+      advanceJob(job, 'fetching_media');
+      return;
+    }
+
+    case 'fetching_media': {
+      const transcript = await fetchTranscript(job.transcript_sid!);
+      const media = await fetchTranscriptMedia(transcript);
+      const sentences = await fetchTranscriptSentences(transcript);
+
+      // Insights are a bonus; a call without them is still worth saving
+      let insights;
+      try {
+        const results = await fetchOperatorResults(transcript);
+        insights = results.length > 0 ? toCallInsights(results) : undefined;
+      } catch (error) {
+        console.warn('⚠️ Operator results unavailable:', {
+          transcriptSid: transcript.sid.slice(-8),
+          error: error instanceof Error ? error.message : error
+        });
+      }
+
+      const session = getCallSession(job.call_sid);
+      if (!session) {
+        console.error('No call session found for call:', job.call_sid);
+      }
+
+      // PII is taken out of the text before anything is stored
+      const { transcript: lines, redactions } = redactTranscript(sentences.map(s => ({
+        speaker: s.media_channel === 1 ? 'customer' as const : 'assistant' as const,
+        text: s.transcript,
+        sentenceIndex: s.sentence_index,
+        startTime: Number(s.start_time),
+        endTime: Number(s.end_time),
+        confidence: s.confidence === null ? undefined : Number(s.confidence)
+      })));
+
+      const newCall: CallRecord = {
+        id: transcript.sid,
+        callSid: job.call_sid,
+        from: session?.from_number || '',
+        to: session?.to_number || '',
+        from_number: session?.from_number || '',
+        to_number: session?.to_number || '',
+        duration: job.duration,
+        recordingUrl: job.recording_url,
+        piiUrl: media.media_url,
+        createdAt: new Date().toISOString(),
+        transcript: lines,
+        insights,
+        metrics: computeCallMetrics(lines)
+      };
+
+      // Numbers and media URLs stay out of the logs
+      console.log('💾 Saving call:', {
+        callId: newCall.id,
+        callSid: job.call_sid.slice(-8),
+        recordingSid: job.recording_sid.slice(-8)
+      });
+      saveJobCall(job.id, newCall, transcript.sid, job.recording_sid, redactions);
+      options.onCallSaved(getCall(newCall.id) ?? newCall);
+      return;
+    }
+  }
+}
+
+let isProcessing = false;
+
+export async function processDueJobs(options: JobWorkerOptions) {
+  // Ticks can overlap when Twilio is slow; let the running one finish
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    for (const job of getDueJobs()) {
+      try {
+        await runJob(job, options);
+      } catch (error) {
+        console.error('Error processing job:', {
+          jobId: job.id,
+          state: job.state,
+          error
+        });
+        retryJob(job, error instanceof Error ? error.message : String(error));
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+// Jobs live in SQLite, so anything left unfinished by a restart resumes here
+export function startJobWorker(options: JobWorkerOptions) {
+  const pending = countPendingJobs();
+  if (pending > 0) {
+    console.log('🔁 Resuming pending recording jobs:', pending);
+  }
+
+  processDueJobs(options);
+  return setInterval(() => processDueJobs(options), TICK_INTERVAL_MS);
+}
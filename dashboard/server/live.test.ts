@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import type { ServerWebSocket } from "bun";
+import type { LiveCallMessage, SocketData } from "./types";
+import { startTestServer, type TestServer } from "./test-server";
+
+// live.ts picks its engine when imported
+Bun.env.STT_ENGINE = 'stub';
+const { handleMediaStreamMessage } = await import("./live");
+
+const CALL_SID = 'CA00000000000000000000000000000010';
+const STREAM_SID = 'MZ00000000000000000000000000000010';
+
+// 20ms of 8kHz μ-law: 0x00 is a full-scale sample, 0xff is silence
+const SPEECH_FRAME = Buffer.alloc(160, 0x00).toString('base64');
+const SILENCE_FRAME = Buffer.alloc(160, 0xff).toString('base64');
+
+let ws: ServerWebSocket<SocketData>;
+let close: ReturnType<typeof mock>;
+let messages: LiveCallMessage[];
+
+const broadcast = (message: LiveCallMessage) => messages.push(message);
+const send = (data: unknown) =>
+  handleMediaStreamMessage(ws, typeof data === 'string' ? data : JSON.stringify(data), broadcast);
+
+beforeEach(() => {
+  close = mock(() => {});
+  ws = { close } as unknown as ServerWebSocket<SocketData>;
+  messages = [];
+});
+
+describe('handleMediaStreamMessage', () => {
+  test('closes the socket on a start message without a call', () => {
+    send({ event: 'start', start: { streamSid: STREAM_SID, mediaFormat: {} } });
+
+    expect(close).toHaveBeenCalledWith(1008, 'Invalid start message');
+    expect(messages).toEqual([]);
+  });
+
+  test('closes the socket on a start message without start details', () => {
+    send({ event: 'start', start: null });
+    send({ event: 'start' });
+
+    expect(close).toHaveBeenCalledTimes(2);
+    expect(messages).toEqual([]);
+  });
+
+  test('ignores messages that are not JSON', () => {
+    expect(() => send('not json')).not.toThrow();
+    expect(close).not.toHaveBeenCalled();
+  });
+
+  test('ignores media that arrives before the stream started', () => {
+    send({ event: 'media', media: { track: 'inbound', payload: SPEECH_FRAME } });
+
+    expect(close).not.toHaveBeenCalled();
+    expect(messages).toEqual([]);
+  });
+
+  test('broadcasts the call and its transcript from start to stop', () => {
+    send({ event: 'start', start: { callSid: CALL_SID, streamSid: STREAM_SID, mediaFormat: { encoding: 'audio/x-mulaw' } } });
+    send({ event: 'media', media: { track: 'inbound', payload: 42 } });
+    for (let i = 0; i < 25; i++) {
+      send({ event: 'media', media: { track: 'inbound', payload: SPEECH_FRAME } });
+    }
+    for (let i = 0; i < 35; i++) {
+      send({ event: 'media', media: { track: 'inbound', payload: SILENCE_FRAME } });
+    }
+    send({ event: 'stop' });
+
+    expect(close).not.toHaveBeenCalled();
+    expect(messages.map(message => message.type === 'live_call'
+      ? { type: message.type, status: message.status }
+      : { type: message.type, speaker: message.speaker, text: message.text, isFinal: message.isFinal }
+    )).toEqual([
+      { type: 'live_call', status: 'started' },
+      { type: 'live_transcript', speaker: 'customer', text: '[customer utterance 1, 0.5s]', isFinal: false },
+      { type: 'live_transcript', speaker: 'customer', text: '[customer utterance 1, 0.5s]', isFinal: true },
+      { type: 'live_call', status: 'ended' }
+    ]);
+    expect(messages.every(message => message.callSid === CALL_SID)).toBe(true);
+  });
+});
+
+describe('live transcripts on the dashboard socket', () => {
+  const LIVE_CALL_SID = 'CA00000000000000000000000000000011';
+  const serviceHeaders = (username: string, role: string) => ({
+    Authorization: `Bearer ${Bun.env.BUN_SERVICE_TOKEN}`,
+    'X-Dashboard-User': username,
+    'X-Dashboard-Role': role
+  });
+
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({ STT_ENGINE: 'stub', TWILIO_VALIDATE_SIGNATURE: 'false' });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  // Bun's client takes headers, which the DOM typings of WebSocket do not know about
+  const HeaderWebSocket = WebSocket as unknown as new (url: string, options?: { headers: Record<string, string> }) => WebSocket;
+
+  const open = (url: string, options?: { headers: Record<string, string> }) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new HeaderWebSocket(url, options);
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error(`Could not connect to ${url}`));
+    });
+
+  test('refuses dashboard sockets without a user', async () => {
+    const response = await fetch(`${server.url}/ws`, {
+      headers: { Authorization: `Bearer ${Bun.env.BUN_SERVICE_TOKEN}`, Upgrade: 'websocket' }
+    });
+    expect(response.status).toBe(403);
+  });
+
+  test('audits the live transcript once per call and viewer', async () => {
+    const wsUrl = server.url.replace(/^http/, 'ws');
+    const dashboard = await open(`${wsUrl}/ws`, { headers: serviceHeaders('vera', 'viewer') });
+    const received: LiveCallMessage[] = [];
+    const ended = new Promise<void>(resolve => {
+      dashboard.onmessage = event => {
+        const message = JSON.parse(event.data as string);
+        received.push(message);
+        if (message.type === 'live_call' && message.status === 'ended') resolve();
+      };
+    });
+
+    const media = await open(`${wsUrl}/media-stream`);
+    const sendMedia = (data: unknown) => media.send(JSON.stringify(data));
+    sendMedia({ event: 'start', start: { callSid: LIVE_CALL_SID, streamSid: STREAM_SID, mediaFormat: {} } });
+    // Two utterances, so the transcript is sent more than once
+    for (const frames of [[25, SPEECH_FRAME], [35, SILENCE_FRAME], [25, SPEECH_FRAME], [35, SILENCE_FRAME]] as const) {
+      for (let i = 0; i < frames[0]; i++) {
+        sendMedia({ event: 'media', media: { track: 'inbound', payload: frames[1] } });
+      }
+    }
+    sendMedia({ event: 'stop' });
+    await ended;
+    media.close();
+    dashboard.close();
+
+    expect(received.filter(message => message.type === 'live_transcript' && message.isFinal)).toHaveLength(2);
+
+    const response = await fetch(`${server.url}/audit-events?action=view_transcript&username=vera`, {
+      headers: serviceHeaders('ada', 'admin')
+    });
+    const { events } = await response.json();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ username: 'vera', role: 'viewer', callId: LIVE_CALL_SID, details: { live: true } });
+  });
+});
@@ -0,0 +1,167 @@
+import type { ServerWebSocket } from "bun";
+import type { LiveCallMessage, SocketData, Speaker } from "./types";
+import type { StreamingSttEngine, StreamingSttSession } from "./stt";
+import { getSttEngine } from "./stt";
+import { getCallSession } from "./db";
+
+// Live transcription is off unless STT_ENGINE names an engine (e.g. "stub")
+const STT_ENGINE = Bun.env.STT_ENGINE;
+
+let engine: StreamingSttEngine | null = null;
+if (STT_ENGINE) {
+  try {
+    engine = getSttEngine(STT_ENGINE);
+    console.log('🎙️ Live transcription enabled:', { engine: engine.name });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export function isLiveTranscriptionEnabled() {
+  return engine !== null;
+}
+
+export function mediaStreamUrl(publicUrl: string) {
+  return publicUrl.replace(/\/$/, '').replace(/^http/, 'ws') + '/media-stream';
+}
+
+// Fork the call audio to our /media-stream socket before Voiceflow's own verbs run
+export function injectMediaStream(twiml: string, streamUrl: string) {
+  const stream = `<Start><Stream url="${streamUrl}" track="both_tracks"/></Start>`;
+  return twiml.replace(/<Response(\s[^>]*)?>/, match => match + stream);
+}
+
+interface MediaStreamState {
+  callSid: string;
+  streamSid: string;
+  sessions: Map<Speaker, StreamingSttSession>;
+}
+
+const streams = new Map<ServerWebSocket<SocketData>, MediaStreamState>();
+
+// Twilio's inbound track is the caller; outbound is what Voiceflow plays back
+const TRACK_SPEAKERS: Record<string, Speaker> = {
+  inbound: 'customer',
+  outbound: 'assistant'
+};
+
+type Broadcast = (message: LiveCallMessage) => void;
+
+interface StreamStart {
+  callSid: string;
+  streamSid: string;
+  mediaFormat: { encoding?: string; sampleRate?: number; channels?: number };
+}
+
+// Twilio's start message names the call and the stream and describes the audio
+function isStreamStart(start: unknown): start is StreamStart {
+  const value = start as Partial<StreamStart> | null | undefined;
+  return typeof value?.callSid === 'string'
+    && typeof value.streamSid === 'string'
+    && typeof value.mediaFormat === 'object'
+    && value.mediaFormat !== null;
+}
+
+function startStream(
+  ws: ServerWebSocket<SocketData>,
+  start: StreamStart,
+  broadcast: Broadcast
+) {
+  const session = getCallSession(start.callSid);
+  const sessions = new Map<Speaker, StreamingSttSession>();
+
+  for (const speaker of Object.values(TRACK_SPEAKERS)) {
+    sessions.set(speaker, engine!.createSession({
+      callSid: start.callSid,
+      speaker,
+      onResult: result => broadcast({
+        type: 'live_transcript',
+        callSid: start.callSid,
+        speaker,
+        text: result.text,
+        isFinal: result.isFinal,
+        timestamp: new Date().toISOString()
+      })
+    }));
+  }
+
+  streams.set(ws, { callSid: start.callSid, streamSid: start.streamSid, sessions });
+
+  console.log('🎙️ Media stream started:', {
+    callSid: start.callSid.slice(-8),
+    streamSid: start.streamSid.slice(-8)
+  });
+
+  broadcast({
+    type: 'live_call',
+    status: 'started',
+    callSid: start.callSid,
+    from: session?.from_number || '',
+    to: session?.to_number || '',
+    timestamp: new Date().toISOString()
+  });
+}
+
+export function closeMediaStream(ws: ServerWebSocket<SocketData>, broadcast: Broadcast) {
+  const state = streams.get(ws);
+  if (!state) return;
+
+  streams.delete(ws);
+  state.sessions.forEach(session => session.close());
+
+  const session = getCallSession(state.callSid);
+
+  console.log('🎙️ Media stream stopped:', { callSid: state.callSid.slice(-8) });
+
+  broadcast({
+    type: 'live_call',
+    status: 'ended',
+    callSid: state.callSid,
+    from: session?.from_number || '',
+    to: session?.to_number || '',
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Handles the Twilio Media Streams protocol: connected, start, media, stop
+export function handleMediaStreamMessage(
+  ws: ServerWebSocket<SocketData>,
+  message: string,
+  broadcast: Broadcast
+) {
+  if (!engine) return;
+
+  let data;
+  try {
+    data = JSON.parse(message);
+  } catch {
+    console.error('Invalid media stream message');
+    return;
+  }
+
+  switch (data?.event) {
+    case 'start':
+      // Without a call to attach to there is nothing to transcribe
+      if (!isStreamStart(data.start)) {
+        console.error('Invalid media stream start message');
+        ws.close(1008, 'Invalid start message');
+        return;
+      }
+      startStream(ws, data.start, broadcast);
+      break;
+
+    case 'media': {
+      const speaker = TRACK_SPEAKERS[data.media?.track];
+      const session = speaker && streams.get(ws)?.sessions.get(speaker);
+      if (session && typeof data.media.payload === 'string') {
+        session.write(Buffer.from(data.media.payload, 'base64'));
+      }
+      break;
+    }
+
+    case 'stop':
+      closeMediaStream(ws, broadcast);
+      break;
+  }
+}
@@ -0,0 +1,17 @@
+const MASK = '•••••';
+const VISIBLE_DIGITS = 4;
+
+// NANP (+1) and Russia/Kazakhstan (+7) have one-digit country codes; for the
+// rest, two digits say enough about where the call is from
+const COUNTRY_CODE = /^\+(?:1|7|\d{2})/;
+
+// "+15551234321" becomes "+1•••••4321". The mask has a fixed length so it
+// doesn't give away how long the number is. Values that aren't phone numbers,
+// like "Anonymous", are left alone.
+export function maskPhoneNumber(value: string) {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 7) return value;
+
+  const prefix = value.trim().match(COUNTRY_CODE)?.[0] ?? '';
+  return `${prefix}${MASK}${digits.slice(-VISIBLE_DIGITS)}`;
+}
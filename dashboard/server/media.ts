@@ -0,0 +1,56 @@
+import type { AudioVariant } from "./types";
+import { getCallMediaSource, updatePiiUrl } from "./db";
+import { fetchRecordingAudio, refreshTranscriptMediaUrl } from "./twilio";
+
+export type MediaResult =
+  | { ok: true; data: Blob; contentType: string }
+  | { ok: false; status: number; error: string; details: string };
+
+// The presigned URL we stored may have expired; if so, get a new one from the
+// transcript's links.media and remember it
+async function fetchRedactedAudio(callId: string, transcriptSid: string, piiUrl: string) {
+  const response = await fetch(piiUrl);
+  if (response.ok) return response;
+
+  console.log('🔄 Refreshing expired media URL:', { callId, status: response.status });
+  const freshUrl = await refreshTranscriptMediaUrl(transcriptSid);
+  updatePiiUrl(callId, freshUrl);
+
+  const retry = await fetch(freshUrl);
+  if (!retry.ok) {
+    throw new Error(`Redacted media returned ${retry.status}`);
+  }
+  return retry;
+}
+
+// Download one variant of a call's audio from Twilio using the stored SIDs
+export async function fetchTwilioAudio(callId: string, variant: AudioVariant): Promise<MediaResult> {
+  const source = getCallMediaSource(callId);
+  if (!source) {
+    return { ok: false, status: 404, error: 'Call not found', details: `No call with ID ${callId}` };
+  }
+
+  let response: Response;
+  if (variant === 'raw') {
+    if (source.recording_purged_at) {
+      return {
+        ok: false,
+        status: 410,
+        error: 'Recording unavailable',
+        details: 'The raw recording was deleted by the retention policy'
+      };
+    }
+    if (!source.recording_sid) {
+      return { ok: false, status: 404, error: 'Recording unavailable', details: 'No raw recording is stored for this call' };
+    }
+    response = await fetchRecordingAudio(source.recording_sid);
+  } else {
+    response = await fetchRedactedAudio(callId, source.transcript_sid, source.pii_url);
+  }
+
+  return {
+    ok: true,
+    data: await response.blob(),
+    contentType: response.headers.get('content-type') || 'audio/wav'
+  };
+}
@@ -0,0 +1,79 @@
+import type { CallMetrics, Speaker, TranscriptLine } from "./types";
+import { getCall, getCallsWithoutMetrics, saveCallMetrics } from "./db";
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+// Walks the sentences of both channels in start order. Returns undefined when
+// the transcript has no timings, e.g. calls saved before they were stored.
+export function computeCallMetrics(transcript: TranscriptLine[]): CallMetrics | undefined {
+  const lines = transcript
+    .filter(line => line.startTime !== undefined && line.endTime !== undefined && line.endTime >= line.startTime)
+    .map(line => ({ speaker: line.speaker, start: line.startTime!, end: line.endTime! }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const talkTime: Record<Speaker, number> = { customer: 0, assistant: 0 };
+  // When each speaker's latest sentence so far ends
+  const speakingUntil: Record<Speaker, number> = { customer: -Infinity, assistant: -Infinity };
+  const latencies: number[] = [];
+  let longestSilence = 0;
+  let overlaps = 0;
+  let turns = 0;
+  let previous: Speaker | null = null;
+
+  for (const line of lines) {
+    const other: Speaker = line.speaker === 'customer' ? 'assistant' : 'customer';
+    const silentSince = Math.max(speakingUntil.customer, speakingUntil.assistant);
+
+    if (previous !== null) {
+      longestSilence = Math.max(longestSilence, line.start - silentSince);
+    }
+    if (line.start < speakingUntil[other]) {
+      overlaps++;
+    }
+    if (line.speaker !== previous) {
+      turns++;
+      // An assistant that starts before the customer has finished replied instantly
+      if (line.speaker === 'assistant' && previous === 'customer') {
+        latencies.push(Math.max(line.start - speakingUntil.customer, 0));
+      }
+    }
+
+    talkTime[line.speaker] += line.end - line.start;
+    speakingUntil[line.speaker] = Math.max(speakingUntil[line.speaker], line.end);
+    previous = line.speaker;
+  }
+
+  return {
+    customerTalkTime: round(talkTime.customer),
+    assistantTalkTime: round(talkTime.assistant),
+    longestSilence: round(longestSilence),
+    overlaps,
+    ...(latencies.length > 0 && {
+      responseLatency: round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+    }),
+    turns
+  };
+}
+
+// Calls saved before metrics existed are filled in once at startup
+export function backfillCallMetrics() {
+  const ids = getCallsWithoutMetrics();
+  let computed = 0;
+
+  for (const id of ids) {
+    const call = getCall(id);
+    const metrics = call && computeCallMetrics(call.transcript);
+    if (metrics) {
+      saveCallMetrics(id, metrics);
+      computed++;
+    }
+  }
+
+  if (computed > 0) {
+    console.log('⏱️ Call metrics backfilled:', { calls: computed });
+  }
+}
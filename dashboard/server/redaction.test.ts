@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { parseRedactionConfig, passesLuhn, redactText, redactTranscript } from "./redaction";
+
+const ALL_ENTITIES = parseRedactionConfig({});
+
+describe('passesLuhn', () => {
+  test('accepts valid card numbers', () => {
+    expect(passesLuhn('4111111111111111')).toBe(true);
+    expect(passesLuhn('5555555555554444')).toBe(true);
+    expect(passesLuhn('378282246310005')).toBe(true);
+  });
+
+  test('rejects a number with a wrong check digit', () => {
+    expect(passesLuhn('4111111111111112')).toBe(false);
+  });
+});
+
+describe('redactText', () => {
+  test('redacts card numbers with spaces or dashes', () => {
+    expect(redactText('My card is 4111 1111 1111 1111, thanks', ALL_ENTITIES).text)
+      .toBe('My card is [CREDIT_CARD], thanks');
+    expect(redactText('It is 5555-5555-5555-4444', ALL_ENTITIES).text).toBe('It is [CREDIT_CARD]');
+  });
+
+  test('leaves long numbers that fail the Luhn check as cards', () => {
+    expect(redactText('Order 4111 1111 1111 1112 shipped', ALL_ENTITIES).text).not.toContain('[CREDIT_CARD]');
+  });
+
+  test('redacts social security numbers', () => {
+    expect(redactText('My social is 123-45-6789', ALL_ENTITIES).text).toBe('My social is [SSN]');
+    expect(redactText('It is 123 45 6789', ALL_ENTITIES).text).toBe('It is [SSN]');
+  });
+
+  test('leaves numbers that are never issued as social security numbers', () => {
+    for (const number of ['000-12-3456', '666-12-3456', '912-34-5678', '123-00-4567', '123-45-0000']) {
+      expect(redactText(`Reference ${number}`, ALL_ENTITIES).text).not.toContain('[SSN]');
+    }
+  });
+
+  test('redacts phone numbers and email addresses', () => {
+    expect(redactText('Call me at (415) 555-0100 or jane.doe@example.com', ALL_ENTITIES).text)
+      .toBe('Call me at [PHONE_NUMBER] or [EMAIL_ADDRESS]');
+    expect(redactText('My number is +14155550100', ALL_ENTITIES).text).toBe('My number is [PHONE_NUMBER]');
+  });
+
+  test('redacts dates only when they are a date of birth', () => {
+    expect(redactText('I was born on March 3rd, 1985', ALL_ENTITIES).text).toBe('I was born on [DATE_OF_BIRTH]');
+    expect(redactText('My date of birth is 03/04/1985', ALL_ENTITIES).text).toBe('My date of birth is [DATE_OF_BIRTH]');
+    expect(redactText('The order arrived on March 3rd, 2024', ALL_ENTITIES).text).toBe('The order arrived on March 3rd, 2024');
+  });
+
+  test('reports what each token replaced and where it starts', () => {
+    expect(redactText('SSN 123-45-6789, card 4111111111111111', ALL_ENTITIES)).toEqual({
+      text: 'SSN [SSN], card [CREDIT_CARD]',
+      spans: [
+        { entity: 'SSN', position: 4, value: '123-45-6789' },
+        { entity: 'CREDIT_CARD', position: 16, value: '4111111111111111' }
+      ]
+    });
+  });
+
+  test('skips entities turned off in the config', () => {
+    const config = parseRedactionConfig({ entities: { SSN: false } });
+    expect(redactText('My social is 123-45-6789', config).text).toBe('My social is 123-45-6789');
+    expect(redactText('Card 4111111111111111', config).text).toBe('Card [CREDIT_CARD]');
+  });
+
+  test('redacts custom patterns under their own name', () => {
+    const config = parseRedactionConfig({ custom: [{ name: 'ORDER_ID', pattern: 'ord-\\d{6}', ignoreCase: true }] });
+    expect(redactText('Order ORD-123456 is late', config)).toEqual({
+      text: 'Order [ORDER_ID] is late',
+      spans: [{ entity: 'ORDER_ID', position: 6, value: 'ORD-123456' }]
+    });
+  });
+});
+
+describe('redactTranscript', () => {
+  test('keys redactions by sentence index', () => {
+    const { transcript, redactions } = redactTranscript([
+      { speaker: 'customer', text: 'Hi there', sentenceIndex: 0 },
+      { speaker: 'customer', text: 'My social is 123-45-6789', sentenceIndex: 1 }
+    ], ALL_ENTITIES);
+
+    expect(transcript.map(line => line.text)).toEqual(['Hi there', 'My social is [SSN]']);
+    expect(redactions).toEqual([{ sentenceIndex: 1, entity: 'SSN', position: 13, value: '123-45-6789' }]);
+  });
+});
+
+describe('parseRedactionConfig', () => {
+  test('rejects unknown entities', () => {
+    expect(() => parseRedactionConfig({ entities: { PASSPORT: true } })).toThrow('Unknown entity "PASSPORT"');
+  });
+
+  test('rejects custom names that are not upper case', () => {
+    expect(() => parseRedactionConfig({ custom: [{ name: 'order id', pattern: '\\d+' }] })).toThrow('custom[0].name');
+  });
+
+  test('rejects invalid regular expressions', () => {
+    expect(() => parseRedactionConfig({ custom: [{ name: 'ORDER_ID', pattern: '(' }] })).toThrow();
+  });
+});
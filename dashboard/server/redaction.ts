@@ -0,0 +1,200 @@
+import { readFileSync } from "fs";
+import type {
+  PiiEntity,
+  TranscriptLine,
+  TranscriptRedaction,
+  TranscriptRedactionConfig
+} from "./types";
+
+interface Detector {
+  entity: string;
+  pattern: RegExp;
+  // Extra check on a match, e.g. the Luhn checksum of a card number
+  accept?: (match: string, text: string) => boolean;
+}
+
+export interface RedactedText {
+  text: string;
+  spans: { entity: string; position: number; value: string }[];
+}
+
+export const PII_ENTITIES: PiiEntity[] = ['PHONE_NUMBER', 'EMAIL_ADDRESS', 'CREDIT_CARD', 'SSN', 'DATE_OF_BIRTH'];
+
+const CUSTOM_NAME = /^[A-Z][A-Z0-9_]*$/;
+
+// A date only counts as a date of birth when the sentence talks about one
+const BIRTH_CONTEXT = /\b(born|birth|birthday|dob|d\.o\.b)\b/i;
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+export function passesLuhn(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+function isPlausibleSsn(match: string) {
+  const [area, group, serial] = match.split(/[- ]/);
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+}
+
+// Checked in this order; where matches overlap, the earlier detector wins
+const BUILT_IN_DETECTORS: Record<PiiEntity, Detector> = {
+  EMAIL_ADDRESS: {
+    entity: 'EMAIL_ADDRESS',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  CREDIT_CARD: {
+    entity: 'CREDIT_CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: match => passesLuhn(match.replace(/\D/g, ''))
+  },
+  SSN: {
+    entity: 'SSN',
+    pattern: /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g,
+    accept: isPlausibleSsn
+  },
+  PHONE_NUMBER: {
+    entity: 'PHONE_NUMBER',
+    pattern: /\+\d{8,15}\b|(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}\b/g
+  },
+  DATE_OF_BIRTH: {
+    entity: 'DATE_OF_BIRTH',
+    pattern: new RegExp(
+      [
+        '\\b\\d{1,2}[/.-]\\d{1,2}[/.-](?:19|20)\\d{2}\\b',
+        '\\b(?:19|20)\\d{2}-\\d{2}-\\d{2}\\b',
+        `\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? (?:19|20)\\d{2}\\b`,
+        `\\b\\d{1,2}(?:st|nd|rd|th)? (?:of )?(?:${MONTHS}),? (?:19|20)\\d{2}\\b`
+      ].join('|'),
+      'gi'
+    ),
+    accept: (_, text) => BIRTH_CONTEXT.test(text)
+  }
+};
+
+export function parseRedactionConfig(raw: unknown): TranscriptRedactionConfig {
+  const config = (raw ?? {}) as Partial<TranscriptRedactionConfig>;
+
+  Object.entries(config.entities ?? {}).forEach(([entity, enabled]) => {
+    if (!PII_ENTITIES.includes(entity as PiiEntity)) {
+      throw new Error(`Unknown entity "${entity}", expected one of: ${PII_ENTITIES.join(', ')}`);
+    }
+    if (typeof enabled !== 'boolean') {
+      throw new Error(`entities.${entity} must be a boolean`);
+    }
+  });
+
+  if (config.custom !== undefined && !Array.isArray(config.custom)) {
+    throw new Error('"custom" must be an array');
+  }
+
+  (config.custom ?? []).forEach((custom, i) => {
+    if (typeof custom.name !== 'string' || !CUSTOM_NAME.test(custom.name)) {
+      throw new Error(`custom[${i}].name must be upper case letters, digits and underscores, e.g. ORDER_ID`);
+    }
+    if (typeof custom.pattern !== 'string') {
+      throw new Error(`custom[${i}].pattern must be a regular expression string`);
+    }
+    new RegExp(custom.pattern);
+  });
+
+  return { entities: config.entities ?? {}, custom: config.custom ?? [] };
+}
+
+// TRANSCRIPT_REDACTION_FILE points at a JSON file; TRANSCRIPT_REDACTION holds the JSON inline.
+// With neither set, every built-in entity is redacted.
+function loadRedactionConfig(): TranscriptRedactionConfig {
+  const file = Bun.env.TRANSCRIPT_REDACTION_FILE;
+  const inline = Bun.env.TRANSCRIPT_REDACTION;
+
+  try {
+    if (file) {
+      return parseRedactionConfig(JSON.parse(readFileSync(file, 'utf8')));
+    }
+    if (inline) {
+      return parseRedactionConfig(JSON.parse(inline));
+    }
+  } catch (error) {
+    console.error('Invalid transcript redaction config:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  return { entities: {}, custom: [] };
+}
+
+const redactionConfig = loadRedactionConfig();
+
+console.log('🕶️ Transcript redaction:', {
+  entities: PII_ENTITIES.filter(entity => redactionConfig.entities[entity] !== false),
+  custom: redactionConfig.custom.map(custom => custom.name)
+});
+
+const compiled = new WeakMap<TranscriptRedactionConfig, Detector[]>();
+
+function detectorsFor(config: TranscriptRedactionConfig) {
+  let detectors = compiled.get(config);
+  if (!detectors) {
+    detectors = [
+      ...Object.values(BUILT_IN_DETECTORS).filter(detector => config.entities[detector.entity as PiiEntity] !== false),
+      ...config.custom.map(custom => ({
+        entity: custom.name,
+        pattern: new RegExp(custom.pattern, custom.ignoreCase ? 'gi' : 'g')
+      }))
+    ];
+    compiled.set(config, detectors);
+  }
+  return detectors;
+}
+
+// Replaces every detected entity with a token like [CREDIT_CARD] and reports
+// what each token replaced
+export function redactText(text: string, config = redactionConfig): RedactedText {
+  const found: { entity: string; start: number; end: number }[] = [];
+
+  for (const detector of detectorsFor(config)) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (match[0] === '' || (detector.accept && !detector.accept(match[0], text))) continue;
+      if (found.some(other => start < other.end && end > other.start)) continue;
+      found.push({ entity: detector.entity, start, end });
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start);
+
+  let redacted = '';
+  let last = 0;
+  const spans = found.map(({ entity, start, end }) => {
+    redacted += text.slice(last, start);
+    const span = { entity, position: redacted.length, value: text.slice(start, end) };
+    redacted += `[${entity}]`;
+    last = end;
+    return span;
+  });
+  redacted += text.slice(last);
+
+  return { text: redacted, spans };
+}
+
+export function redactTranscript(transcript: TranscriptLine[], config = redactionConfig) {
+  const redactions: TranscriptRedaction[] = [];
+
+  const lines = transcript.map((line, i) => {
+    const { text, spans } = redactText(line.text, config);
+    const sentenceIndex = line.sentenceIndex ?? i;
+    spans.forEach(span => redactions.push({ sentenceIndex, ...span }));
+    return { ...line, text };
+  });
+
+  return { transcript: lines, redactions };
+}
@@ -0,0 +1,241 @@
+import { readFileSync } from "fs";
+import type {
+  RetentionAction,
+  RetentionPolicy,
+  RetentionRule,
+  RetentionRulesConfig
+} from "./types";
+import type { RetentionCandidate } from "./db";
+import {
+  deleteCall,
+  getLegalHold,
+  getRetentionCandidates,
+  markRecordingPurged,
+  recordAuditEvents
+} from "./db";
+import { deleteRecording, deleteTranscript } from "./twilio";
+import { removeCachedAudio } from "./audio";
+import { deleteArchivedAudio } from "./archive";
+import { maskPhoneNumber } from "./masking";
+
+const RETENTION_INTERVAL_MS = parseInt(Bun.env.RETENTION_INTERVAL_MINUTES || "60") * 60 * 1000;
+
+// Recorded as the user in the audit log for automatic purges
+const RETENTION_USER = 'retention-scheduler';
+
+const DIRECTIONS = ['inbound', 'outbound'];
+
+function assertDays(value: unknown, field: string) {
+  if (value === undefined || value === null) return;
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new Error(`Invalid ${field}, expected a whole number of days (at least 1) or null`);
+  }
+}
+
+function assertPattern(value: unknown, field: string) {
+  if (value === undefined) return;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${field}, expected a regular expression string`);
+  }
+  new RegExp(value);
+}
+
+function validatePolicy(policy: RetentionPolicy, label: string) {
+  assertDays(policy.recordingDays, `${label} recordingDays`);
+  assertDays(policy.transcriptDays, `${label} transcriptDays`);
+}
+
+export function parseRetentionRules(raw: unknown): RetentionRulesConfig {
+  const config = (raw ?? {}) as RetentionRulesConfig;
+
+  validatePolicy(config.default ?? {}, 'default');
+
+  if (config.rules !== undefined && !Array.isArray(config.rules)) {
+    throw new Error('"rules" must be an array');
+  }
+
+  (config.rules ?? []).forEach((rule, i) => {
+    const label = `rules[${i}]`;
+    validatePolicy(rule, label);
+    if (rule.match?.direction !== undefined && !DIRECTIONS.includes(rule.match.direction)) {
+      throw new Error(`Invalid ${label} match.direction "${rule.match.direction}", expected one of: ${DIRECTIONS.join(', ')}`);
+    }
+    assertPattern(rule.match?.to, `${label} match.to`);
+    assertPattern(rule.match?.from, `${label} match.from`);
+  });
+
+  return { default: config.default ?? {}, rules: config.rules ?? [] };
+}
+
+// RETENTION_RULES_FILE points at a JSON file; RETENTION_RULES holds the JSON inline.
+// With neither set, calls are kept until someone deletes them.
+function loadRetentionRules(): RetentionRulesConfig | null {
+  const file = Bun.env.RETENTION_RULES_FILE;
+  const inline = Bun.env.RETENTION_RULES;
+
+  try {
+    if (file) {
+      return parseRetentionRules(JSON.parse(readFileSync(file, 'utf8')));
+    }
+    if (inline) {
+      return parseRetentionRules(JSON.parse(inline));
+    }
+  } catch (error) {
+    console.error('Invalid retention rules:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  return null;
+}
+
+const retentionRules = loadRetentionRules();
+
+function matchesRule(rule: RetentionRule, call: RetentionCandidate) {
+  const { match = {} } = rule;
+
+  // Twilio reports outbound calls as outbound-api or outbound-dial
+  if (match.direction && !call.direction?.startsWith(match.direction)) return false;
+  if (match.to && !new RegExp(match.to).test(call.to_number)) return false;
+  if (match.from && !new RegExp(match.from).test(call.from_number)) return false;
+
+  return true;
+}
+
+// The first matching rule wins; anything it leaves out comes from the default
+function resolvePolicy(call: RetentionCandidate, config: RetentionRulesConfig) {
+  const index = config.rules.findIndex(rule => matchesRule(rule, call));
+  const rule = config.rules[index];
+
+  return {
+    name: rule ? `rules[${index}]` : 'default',
+    recordingDays: rule?.recordingDays !== undefined ? rule.recordingDays : config.default.recordingDays,
+    transcriptDays: rule?.transcriptDays !== undefined ? rule.transcriptDays : config.default.transcriptDays
+  };
+}
+
+function planAction(call: RetentionCandidate, config: RetentionRulesConfig): RetentionAction | null {
+  const policy = resolvePolicy(call, config);
+
+  let action: RetentionAction['action'] | null = null;
+  if (policy.transcriptDays != null && call.age_days >= policy.transcriptDays) {
+    action = 'delete_call';
+  } else if (policy.recordingDays != null && call.age_days >= policy.recordingDays && !call.recording_purged_at) {
+    action = 'delete_recording';
+  }
+
+  if (!action) return null;
+
+  return {
+    callId: call.id,
+    callSid: call.call_sid,
+    toNumber: maskPhoneNumber(call.to_number),
+    createdAt: call.created_at,
+    ageDays: Math.floor(call.age_days),
+    policy: policy.name,
+    action,
+    legalHold: !!call.legal_hold_at
+  };
+}
+
+function planActions(candidates: RetentionCandidate[], config: RetentionRulesConfig) {
+  return candidates
+    .map(call => planAction(call, config))
+    .filter((action): action is RetentionAction => action !== null);
+}
+
+// What the scheduler would delete right now, without deleting anything.
+// Calls under legal hold are listed separately and never purged.
+export function getRetentionReport() {
+  const planned = retentionRules ? planActions(getRetentionCandidates(), retentionRules) : [];
+
+  return {
+    enabled: retentionRules !== null,
+    generatedAt: new Date().toISOString(),
+    actions: planned.filter(action => !action.legalHold),
+    held: planned.filter(action => action.legalHold)
+  };
+}
+
+// Twilio copies go first; local rows are only removed once those deletes succeed,
+// so a failure is retried on the next run
+async function applyAction(action: RetentionAction, call: RetentionCandidate) {
+  // A hold may have been placed since the run was planned
+  if (getLegalHold(call.id)) {
+    console.log('⚖️ Retention skipped call under legal hold:', { callId: call.id });
+    return;
+  }
+
+  if (call.recording_sid && !call.recording_purged_at) {
+    await deleteRecording(call.recording_sid);
+  }
+
+  if (action.action === 'delete_recording') {
+    markRecordingPurged(call.id);
+    removeCachedAudio(call.id, 'raw');
+    await deleteArchivedAudio(call.id, 'raw');
+  } else {
+    await deleteTranscript(call.transcript_sid);
+    if (await deleteCall(call.id) === 'legal_hold') {
+      throw new Error('Call was placed under legal hold during the purge');
+    }
+    removeCachedAudio(call.id);
+    await deleteArchivedAudio(call.id);
+  }
+
+  recordAuditEvents({
+    username: RETENTION_USER,
+    role: 'admin',
+    action: action.action === 'delete_call' ? 'delete' : 'purge_recording',
+    callIds: [call.id],
+    details: { reason: 'retention', policy: action.policy, ageDays: action.ageDays }
+  });
+}
+
+let isRunning = false;
+
+export async function runRetention() {
+  if (!retentionRules || isRunning) return;
+  isRunning = true;
+
+  try {
+    const candidates = getRetentionCandidates();
+    const byId = new Map(candidates.map(call => [call.id, call]));
+    const actions = planActions(candidates, retentionRules).filter(action => !action.legalHold);
+    let failed = 0;
+
+    for (const action of actions) {
+      try {
+        await applyAction(action, byId.get(action.callId)!);
+      } catch (error) {
+        failed++;
+        console.error('Retention purge failed:', {
+          callId: action.callId,
+          action: action.action,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+
+    if (actions.length > 0) {
+      console.log('🧹 Retention run finished:', { purged: actions.length - failed, failed });
+    }
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startRetentionScheduler() {
+  if (!retentionRules) {
+    console.log('🗄️ No retention rules configured; calls are kept until deleted');
+    return;
+  }
+
+  console.log('🗄️ Retention rules loaded:', {
+    rules: retentionRules.rules.length,
+    default: retentionRules.default,
+    intervalMinutes: RETENTION_INTERVAL_MS / 60000
+  });
+
+  runRetention();
+  setInterval(runRetention, RETENTION_INTERVAL_MS);
+}
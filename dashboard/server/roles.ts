@@ -0,0 +1,29 @@
+import type { CallRecord, Role, VisibleCall } from "./types";
+import { maskPhoneNumber } from "./masking";
+
+export const ROLES: Role[] = ['viewer', 'reviewer', 'admin'];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// Roles are ordered; each one can do everything the previous one can
+export function hasRole(role: Role | null | undefined, required: Role) {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// Phone numbers are masked for everyone; reviewers and above can reveal them
+// one call at a time, which is audited. The transcript and the Twilio media
+// URLs are left out.
+export function visibleCall(call: CallRecord): VisibleCall {
+  return {
+    ...call,
+    transcript: undefined,
+    recordingUrl: undefined,
+    piiUrl: undefined,
+    from: maskPhoneNumber(call.from),
+    to: maskPhoneNumber(call.to),
+    from_number: maskPhoneNumber(call.from_number),
+    to_number: maskPhoneNumber(call.to_number)
+  };
+}
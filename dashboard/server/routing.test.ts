@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { VoiceflowRoutingConfig } from "./types";
+import { fallbackTwiml, parseVoiceflowRoutes, resolveVoiceflowTarget } from "./routing";
+import { startTestServer, type TestServer } from "./test-server";
+
+const CONFIG: VoiceflowRoutingConfig = parseVoiceflowRoutes({
+  default: { timeoutMs: 5000, fallbackMessage: 'Default fallback' },
+  projects: {
+    'project-eu': { baseUrl: 'https://eu.runtime.example.com/', timeoutMs: 3000, apiKey: 'VF.DM.eu' }
+  },
+  routes: [
+    { match: { to: '^\\+44' }, baseUrl: 'https://uk.runtime.example.com', fallbackMessage: 'UK fallback' },
+    { match: { pathPrefix: '/v1/twilio/webhooks/project-local/' }, baseUrl: 'http://localhost:4000' },
+    { match: { to: '^\\+44', pathPrefix: '/v1/twilio/webhooks/project-eu/' }, baseUrl: 'https://never.example.com' }
+  ]
+});
+
+describe('parseVoiceflowRoutes', () => {
+  test('fills in missing sections', () => {
+    expect(parseVoiceflowRoutes(undefined)).toEqual({ default: {}, projects: {}, routes: [] });
+  });
+
+  test('rejects base URLs that are not http(s)', () => {
+    expect(() => parseVoiceflowRoutes({ routes: [{ baseUrl: 'ftp://runtime.example.com' }] }))
+      .toThrow('routes[0]: "baseUrl" must be an http(s) URL');
+    expect(() => parseVoiceflowRoutes({ default: { baseUrl: 'not a url' } }))
+      .toThrow('default: "baseUrl" must be an http(s) URL');
+  });
+
+  test('rejects timeouts that are not positive integers', () => {
+    expect(() => parseVoiceflowRoutes({ projects: { p1: { timeoutMs: 0 } } }))
+      .toThrow('projects.p1: "timeoutMs" must be a positive integer');
+  });
+
+  test('rejects invalid match patterns', () => {
+    expect(() => parseVoiceflowRoutes({ routes: [{ match: { to: '(' } }] })).toThrow();
+    expect(() => parseVoiceflowRoutes({ routes: [{ match: { pathPrefix: 42 } }] }))
+      .toThrow('routes[0]: "match.pathPrefix" must be a string');
+  });
+
+  test('rejects routes and projects of the wrong shape', () => {
+    expect(() => parseVoiceflowRoutes({ routes: {} })).toThrow('"routes" must be an array');
+    expect(() => parseVoiceflowRoutes({ projects: [] })).toThrow('"projects" must be an object keyed by project ID');
+  });
+});
+
+describe('resolveVoiceflowTarget', () => {
+  test('uses the public runtime when nothing matches', () => {
+    expect(resolveVoiceflowTarget({ pathname: '/v1/twilio/webhooks/project-1/answer', to: '+14155550199' }, CONFIG))
+      .toEqual({ baseUrl: 'https://runtime-api.voiceflow.com', timeoutMs: 5000, fallbackMessage: 'Default fallback' });
+  });
+
+  test('uses the project settings over the defaults', () => {
+    expect(resolveVoiceflowTarget({
+      pathname: '/v1/twilio/webhooks/project-eu/answer',
+      to: '+14155550199',
+      projectId: 'project-eu'
+    }, CONFIG)).toEqual({ baseUrl: 'https://eu.runtime.example.com', timeoutMs: 3000, fallbackMessage: 'Default fallback' });
+  });
+
+  test('uses the first matching route over the project settings', () => {
+    expect(resolveVoiceflowTarget({
+      pathname: '/v1/twilio/webhooks/project-eu/answer',
+      to: '+442071838750',
+      projectId: 'project-eu'
+    }, CONFIG)).toEqual({ baseUrl: 'https://uk.runtime.example.com', timeoutMs: 3000, fallbackMessage: 'UK fallback' });
+  });
+
+  test('matches routes by path prefix', () => {
+    expect(resolveVoiceflowTarget({ pathname: '/v1/twilio/webhooks/project-local/answer', to: null }, CONFIG).baseUrl)
+      .toBe('http://localhost:4000');
+  });
+});
+
+describe('fallbackTwiml', () => {
+  test('says the escaped message and hangs up', () => {
+    expect(fallbackTwiml({ baseUrl: '', timeoutMs: 1, fallbackMessage: 'Sorry <we> & "you"' })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>'
+      + '<Response><Say>Sorry &lt;we&gt; &amp; &quot;you&quot;</Say><Hangup/></Response>'
+    );
+  });
+});
+
+describe('webhooks to an unavailable runtime', () => {
+  let runtime: ReturnType<typeof Bun.serve>;
+  let server: TestServer;
+
+  beforeAll(async () => {
+    // Fails outright for one number and answers too late for the other
+    runtime = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const params = new URLSearchParams(await req.text());
+        if (params.get('To') === '+14155550001') return new Response('Down', { status: 503 });
+        await Bun.sleep(500);
+        return new Response('<Response><Say>Too late</Say></Response>');
+      }
+    });
+
+    server = await startTestServer({
+      TWILIO_VALIDATE_SIGNATURE: 'false',
+      VOICEFLOW_ROUTES: JSON.stringify({
+        default: { baseUrl: runtime.url.origin, timeoutMs: 100, fallbackMessage: 'Please call back later.' }
+      })
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    runtime.stop(true);
+  });
+
+  const webhook = (to: string) => fetch(`${server.url}/v1/twilio/webhooks/project-1/answer`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ CallSid: `CA${to.slice(1)}`, From: '+14155550100', To: to }).toString()
+  });
+
+  test('answers with the fallback TwiML when the runtime fails', async () => {
+    const response = await webhook('+14155550001');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/xml');
+    expect(await response.text()).toContain('<Say>Please call back later.</Say><Hangup/>');
+  });
+
+  test('answers with the fallback TwiML when the runtime times out', async () => {
+    expect(await (await webhook('+14155550002')).text()).toContain('<Say>Please call back later.</Say><Hangup/>');
+  });
+});
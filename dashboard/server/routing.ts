@@ -0,0 +1,153 @@
+import { readFileSync } from "fs";
+import type {
+  VoiceflowProjectConfig,
+  VoiceflowRoute,
+  VoiceflowRoutingConfig,
+  VoiceflowTarget
+} from "./types";
+
+// Twilio gives up on a webhook after 15 seconds, so answer with the fallback before that
+const DEFAULT_TARGET: VoiceflowTarget = {
+  baseUrl: 'https://runtime-api.voiceflow.com',
+  timeoutMs: 10_000,
+  fallbackMessage: 'Sorry, we cannot take your call right now. Please try again later.'
+};
+
+function assertPattern(value: unknown, field: string) {
+  if (value === undefined) return;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${field}, expected a regular expression string`);
+  }
+  new RegExp(value);
+}
+
+function validateTarget(target: Partial<VoiceflowTarget>, label: string) {
+  if (target.baseUrl !== undefined) {
+    const protocol = typeof target.baseUrl === 'string' && URL.canParse(target.baseUrl)
+      ? new URL(target.baseUrl).protocol
+      : null;
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`${label}: "baseUrl" must be an http(s) URL`);
+    }
+  }
+  if (target.timeoutMs !== undefined && (!Number.isInteger(target.timeoutMs) || target.timeoutMs <= 0)) {
+    throw new Error(`${label}: "timeoutMs" must be a positive integer`);
+  }
+  if (target.fallbackMessage !== undefined && typeof target.fallbackMessage !== 'string') {
+    throw new Error(`${label}: "fallbackMessage" must be a string`);
+  }
+}
+
+export function parseVoiceflowRoutes(raw: unknown): VoiceflowRoutingConfig {
+  const config = (raw ?? {}) as VoiceflowRoutingConfig;
+
+  validateTarget(config.default ?? {}, 'default');
+
+  if (config.projects !== undefined && (typeof config.projects !== 'object' || Array.isArray(config.projects))) {
+    throw new Error('"projects" must be an object keyed by project ID');
+  }
+
+  Object.entries(config.projects ?? {}).forEach(([projectId, project]) => {
+    const label = `projects.${projectId}`;
+    validateTarget(project, label);
+    if (project.apiKey !== undefined && typeof project.apiKey !== 'string') {
+      throw new Error(`${label}: "apiKey" must be a string`);
+    }
+  });
+
+  if (config.routes !== undefined && !Array.isArray(config.routes)) {
+    throw new Error('"routes" must be an array');
+  }
+
+  (config.routes ?? []).forEach((route, i) => {
+    const label = `routes[${i}]`;
+    validateTarget(route, label);
+    assertPattern(route.match?.to, `${label} match.to`);
+    if (route.match?.pathPrefix !== undefined && typeof route.match.pathPrefix !== 'string') {
+      throw new Error(`${label}: "match.pathPrefix" must be a string`);
+    }
+  });
+
+  return { default: config.default ?? {}, projects: config.projects ?? {}, routes: config.routes ?? [] };
+}
+
+// VOICEFLOW_ROUTES_FILE points at a JSON file; VOICEFLOW_ROUTES holds the JSON inline.
+// With neither set, every webhook goes to the public Voiceflow runtime.
+function loadVoiceflowRoutes(): VoiceflowRoutingConfig {
+  const file = Bun.env.VOICEFLOW_ROUTES_FILE;
+  const inline = Bun.env.VOICEFLOW_ROUTES;
+
+  try {
+    if (file) {
+      return parseVoiceflowRoutes(JSON.parse(readFileSync(file, 'utf8')));
+    }
+    if (inline) {
+      return parseVoiceflowRoutes(JSON.parse(inline));
+    }
+  } catch (error) {
+    console.error('Invalid Voiceflow routes:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  return { default: {}, projects: {}, routes: [] };
+}
+
+const voiceflowRoutes = loadVoiceflowRoutes();
+
+console.log('🔀 Voiceflow routes loaded:', {
+  routes: voiceflowRoutes.routes.length,
+  projects: Object.keys(voiceflowRoutes.projects).length,
+  default: { ...DEFAULT_TARGET, ...voiceflowRoutes.default }.baseUrl
+});
+
+interface WebhookToMatch {
+  pathname: string;
+  to?: string | null;
+}
+
+function matchesRoute(route: VoiceflowRoute, webhook: WebhookToMatch) {
+  const { match = {} } = route;
+
+  if (match.to && !new RegExp(match.to).test(webhook.to ?? '')) return false;
+  if (match.pathPrefix && !webhook.pathname.startsWith(match.pathPrefix)) return false;
+
+  return true;
+}
+
+export function getVoiceflowProject(
+  projectId: string,
+  config: VoiceflowRoutingConfig = voiceflowRoutes
+): VoiceflowProjectConfig {
+  return config.projects[projectId] ?? {};
+}
+
+// The first matching route wins over the project's settings, which win over the defaults
+export function resolveVoiceflowTarget(
+  webhook: WebhookToMatch & { projectId?: string },
+  config: VoiceflowRoutingConfig = voiceflowRoutes
+): VoiceflowTarget {
+  const route = config.routes.find(r => matchesRoute(r, webhook));
+  const project = webhook.projectId ? getVoiceflowProject(webhook.projectId, config) : {};
+  const defaults = { ...DEFAULT_TARGET, ...config.default };
+
+  return {
+    baseUrl: (route?.baseUrl ?? project.baseUrl ?? defaults.baseUrl).replace(/\/$/, ''),
+    timeoutMs: route?.timeoutMs ?? project.timeoutMs ?? defaults.timeoutMs,
+    fallbackMessage: route?.fallbackMessage ?? project.fallbackMessage ?? defaults.fallbackMessage
+  };
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// What Twilio plays when the runtime is down, so the caller is not left with silence
+export function fallbackTwiml(target: VoiceflowTarget) {
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + `<Response><Say>${escapeXml(target.fallbackMessage)}</Say><Hangup/></Response>`;
+}
@@ -0,0 +1,125 @@
+import { readFileSync } from "fs";
+import type {
+  RecordingRule,
+  RecordingRulesConfig,
+  RecordingSettings
+} from "./types";
+
+const DEFAULT_SETTINGS: RecordingSettings = {
+  record: true,
+  channels: 'dual',
+  track: 'both',
+  trim: 'trim-silence'
+};
+
+const CHANNELS = ['mono', 'dual'];
+const TRACKS = ['inbound', 'outbound', 'both'];
+const TRIMS = ['trim-silence', 'do-not-trim'];
+const DIRECTIONS = ['inbound', 'outbound'];
+
+function assertOneOf(value: unknown, allowed: string[], field: string) {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    throw new Error(`Invalid ${field} "${value}", expected one of: ${allowed.join(', ')}`);
+  }
+}
+
+function assertPattern(value: unknown, field: string) {
+  if (value === undefined) return;
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${field}, expected a regular expression string`);
+  }
+  new RegExp(value);
+}
+
+function validateSettings(settings: Partial<RecordingSettings>, label: string) {
+  if (settings.record !== undefined && typeof settings.record !== 'boolean') {
+    throw new Error(`${label}: "record" must be a boolean`);
+  }
+  assertOneOf(settings.channels, CHANNELS, `${label} channels`);
+  assertOneOf(settings.track, TRACKS, `${label} track`);
+  assertOneOf(settings.trim, TRIMS, `${label} trim`);
+}
+
+export function parseRecordingRules(raw: unknown): RecordingRulesConfig {
+  const config = (raw ?? {}) as RecordingRulesConfig;
+
+  validateSettings(config.default ?? {}, 'default');
+
+  if (config.rules !== undefined && !Array.isArray(config.rules)) {
+    throw new Error('"rules" must be an array');
+  }
+
+  (config.rules ?? []).forEach((rule, i) => {
+    const label = `rules[${i}]`;
+    validateSettings(rule, label);
+    assertOneOf(rule.match?.direction, DIRECTIONS, `${label} match.direction`);
+    assertPattern(rule.match?.to, `${label} match.to`);
+    assertPattern(rule.match?.from, `${label} match.from`);
+    assertPattern(rule.match?.voiceflowPath, `${label} match.voiceflowPath`);
+  });
+
+  return { default: config.default ?? {}, rules: config.rules ?? [] };
+}
+
+// RECORDING_RULES_FILE points at a JSON file; RECORDING_RULES holds the JSON inline.
+// With neither set, every call is recorded with the default settings.
+function loadRecordingRules(): RecordingRulesConfig {
+  const file = Bun.env.RECORDING_RULES_FILE;
+  const inline = Bun.env.RECORDING_RULES;
+
+  try {
+    if (file) {
+      return parseRecordingRules(JSON.parse(readFileSync(file, 'utf8')));
+    }
+    if (inline) {
+      return parseRecordingRules(JSON.parse(inline));
+    }
+  } catch (error) {
+    console.error('Invalid recording rules:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  return { default: {}, rules: [] };
+}
+
+const recordingRules = loadRecordingRules();
+
+console.log('🎛️ Recording rules loaded:', {
+  rules: recordingRules.rules.length,
+  default: { ...DEFAULT_SETTINGS, ...recordingRules.default }
+});
+
+interface CallToMatch {
+  direction?: string | null;
+  from?: string | null;
+  to?: string | null;
+  voiceflowPath?: string | null;
+}
+
+function matchesRule(rule: RecordingRule, call: CallToMatch) {
+  const { match = {} } = rule;
+
+  // Twilio reports outbound calls as outbound-api or outbound-dial
+  if (match.direction && !call.direction?.startsWith(match.direction)) return false;
+  if (match.to && !new RegExp(match.to).test(call.to ?? '')) return false;
+  if (match.from && !new RegExp(match.from).test(call.from ?? '')) return false;
+  if (match.voiceflowPath && !new RegExp(match.voiceflowPath).test(call.voiceflowPath ?? '')) return false;
+
+  return true;
+}
+
+// The first matching rule wins; anything it leaves out comes from the defaults
+export function resolveRecordingSettings(
+  call: CallToMatch,
+  config: RecordingRulesConfig = recordingRules
+): RecordingSettings {
+  const rule = config.rules.find(r => matchesRule(r, call));
+  const defaults = { ...DEFAULT_SETTINGS, ...config.default };
+
+  return {
+    record: rule?.record ?? defaults.record,
+    channels: rule?.channels ?? defaults.channels,
+    track: rule?.track ?? defaults.track,
+    trim: rule?.trim ?? defaults.trim
+  };
+}
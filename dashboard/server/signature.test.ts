@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import { computeTwilioSignature, validateTwilioRequest, validateTwilioSignature } from "./signature";
+
+const AUTH_TOKEN = 'test-auth-token';
+const PUBLIC_URL = 'https://dashboard.example.com';
+
+const PARAMS = {
+  CallSid: 'CA1234567890abcdef1234567890abcdef',
+  From: '+14155550100',
+  To: '+14155550199',
+  CallStatus: 'ringing'
+};
+
+describe('validateTwilioSignature', () => {
+  const url = `${PUBLIC_URL}/v1/twilio/webhooks/project-1/answer`;
+
+  test('accepts a signature over the URL and sorted parameters', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, url, PARAMS);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, url, PARAMS)).toBe(true);
+  });
+
+  test('does not depend on the parameter order', () => {
+    const reversed = Object.fromEntries(Object.entries(PARAMS).reverse());
+    const signature = computeTwilioSignature(AUTH_TOKEN, url, reversed);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, url, PARAMS)).toBe(true);
+  });
+
+  test('rejects another auth token', () => {
+    const signature = computeTwilioSignature('other-token', url, PARAMS);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, url, PARAMS)).toBe(false);
+  });
+
+  test('rejects changed parameters', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, url, PARAMS);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, url, { ...PARAMS, From: '+14155550111' })).toBe(false);
+  });
+
+  test('rejects another URL', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, url, PARAMS);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, `${PUBLIC_URL}/recording-status`, PARAMS)).toBe(false);
+  });
+
+  test('accepts a signature made with the default port', () => {
+    const signature = computeTwilioSignature(AUTH_TOKEN, 'https://dashboard.example.com:443/call-status', PARAMS);
+    expect(validateTwilioSignature(AUTH_TOKEN, signature, `${PUBLIC_URL}/call-status`, PARAMS)).toBe(true);
+  });
+
+  test('accepts the values of a repeated parameter signed in sorted order', () => {
+    const params = { CallSid: 'CA1', Digits: ['9', '1'] };
+    const sortedSignature = computeTwilioSignature(AUTH_TOKEN, `${PUBLIC_URL}/call-status`, { ...params, Digits: ['1', '9'] });
+
+    expect(validateTwilioSignature(AUTH_TOKEN, sortedSignature, `${PUBLIC_URL}/call-status`, params)).toBe(true);
+  });
+});
+
+describe('validateTwilioRequest', () => {
+  test('validates GET webhooks against the query string', async () => {
+    const path = '/v1/twilio/webhooks/project-1/answer?' + new URLSearchParams(PARAMS);
+    const signature = computeTwilioSignature(AUTH_TOKEN, PUBLIC_URL + path);
+    const req = new Request(`http://localhost:3902${path}`, {
+      headers: { 'X-Twilio-Signature': signature }
+    });
+
+    expect(await validateTwilioRequest(req, AUTH_TOKEN, PUBLIC_URL)).toBe(true);
+  });
+
+  test('validates POST webhooks against the form body and leaves it readable', async () => {
+    const body = new URLSearchParams(PARAMS).toString();
+    const signature = computeTwilioSignature(AUTH_TOKEN, `${PUBLIC_URL}/recording-status`, PARAMS);
+    const req = new Request('http://localhost:3902/recording-status', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': signature
+      },
+      body
+    });
+
+    expect(await validateTwilioRequest(req, AUTH_TOKEN, `${PUBLIC_URL}/`)).toBe(true);
+    expect(await req.text()).toBe(body);
+  });
+
+  test('validates POST webhooks that repeat a parameter', async () => {
+    const body = 'CallSid=CA1&StatusCallbackEvent=initiated&StatusCallbackEvent=answered&To=%2B14155550199';
+    const signature = computeTwilioSignature(AUTH_TOKEN, `${PUBLIC_URL}/call-status`, {
+      CallSid: 'CA1',
+      StatusCallbackEvent: ['initiated', 'answered'],
+      To: '+14155550199'
+    });
+    // Built by hand so the fixture does not rely on computeTwilioSignature
+    expect(signature).toBe(createHmac('sha1', AUTH_TOKEN)
+      .update(`${PUBLIC_URL}/call-statusCallSidCA1StatusCallbackEventinitiatedStatusCallbackEventansweredTo+14155550199`)
+      .digest('base64'));
+
+    const request = (signed: string) => new Request('http://localhost:3902/call-status', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-Twilio-Signature': signed },
+      body
+    });
+
+    expect(await validateTwilioRequest(request(signature), AUTH_TOKEN, PUBLIC_URL)).toBe(true);
+
+    const lastValueOnly = computeTwilioSignature(AUTH_TOKEN, `${PUBLIC_URL}/call-status`, {
+      CallSid: 'CA1',
+      StatusCallbackEvent: 'answered',
+      To: '+14155550199'
+    });
+    expect(await validateTwilioRequest(request(lastValueOnly), AUTH_TOKEN, PUBLIC_URL)).toBe(false);
+  });
+
+  test('rejects requests without a signature', async () => {
+    const req = new Request('http://localhost:3902/recording-status', { method: 'POST' });
+    expect(await validateTwilioRequest(req, AUTH_TOKEN, PUBLIC_URL)).toBe(false);
+  });
+});
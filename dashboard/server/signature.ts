@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Form parameters by name; a name sent more than once has every value, in order
+export type SignedParams = Record<string, string | string[]>;
+
+// Twilio signs every webhook with HMAC-SHA1 over the full public URL it called,
+// followed (for POST form bodies) by each parameter name and value sorted by name.
+// A repeated parameter adds its name and value once for each of its values.
+// See https://www.twilio.com/docs/usage/webhooks/webhooks-security
+export function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: SignedParams = {}
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => {
+      const values = [params[key]].flat();
+      return acc + values.map(value => key + value).join('');
+    }, url);
+
+  return createHmac('sha1', authToken).update(payload, 'utf8').digest('base64');
+}
+
+function safeCompare(a: string, b: string) {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Twilio may or may not include the default port when signing, so try both forms
+function urlVariants(url: string): string[] {
+  const parsed = new URL(url);
+  // URL drops default ports, so a set port here is a non-default one
+  if (parsed.port) {
+    return [url];
+  }
+
+  const defaultPort = ['https:', 'wss:'].includes(parsed.protocol) ? '443' : '80';
+  const path = parsed.pathname + parsed.search;
+  return [...new Set([
+    url,
+    `${parsed.protocol}//${parsed.hostname}${path}`,
+    `${parsed.protocol}//${parsed.hostname}:${defaultPort}${path}`
+  ])];
+}
+
+// Twilio's helper libraries sign the values of a repeated parameter sorted,
+// so accept either order
+function paramVariants(params: SignedParams): SignedParams[] {
+  const sorted = Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+  );
+  return JSON.stringify(sorted) === JSON.stringify(params) ? [params] : [params, sorted];
+}
+
+export function validateTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: SignedParams = {}
+): boolean {
+  return urlVariants(url).some(candidate =>
+    paramVariants(params).some(variant =>
+      safeCompare(computeTwilioSignature(authToken, candidate, variant), signature)
+    )
+  );
+}
+
+// The Bun server sits behind a proxy, so `req.url` is the internal address.
+// Rebuild the URL Twilio actually called from PUBLIC_URL before validating.
+export async function validateTwilioRequest(
+  req: Request,
+  authToken: string,
+  publicUrl: string
+): Promise<boolean> {
+  const signature = req.headers.get('x-twilio-signature');
+  if (!signature) {
+    return false;
+  }
+
+  const { pathname, search } = new URL(req.url);
+  const url = publicUrl.replace(/\/$/, '') + pathname + search;
+
+  const params: SignedParams = {};
+  const contentType = req.headers.get('content-type') || '';
+  if (req.method === 'POST' && contentType.includes('application/x-www-form-urlencoded')) {
+    // Clone so the route handler can still read the body
+    const body = new URLSearchParams(await req.clone().text());
+    for (const key of new Set(body.keys())) {
+      const values = body.getAll(key);
+      params[key] = values.length === 1 ? values[0] : values;
+    }
+  }
+
+  return validateTwilioSignature(authToken, signature, url, params);
+}
@@ -0,0 +1,95 @@
+import { S3Client } from "bun";
+import { mkdirSync, unlinkSync } from "fs";
+import { dirname, join, resolve } from "path";
+
+// Where archived call audio is kept. Keys are relative paths like
+// "calls/2025/01/GT.../raw.wav"; drivers map them onto their own layout.
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Blob, contentType: string): Promise<void>;
+  // Null when the object doesn't exist
+  get(key: string): Promise<Blob | null>;
+  delete(key: string): Promise<void>;
+}
+
+export function createFilesystemStorage(root = Bun.env.ARCHIVE_DIR || 'data/archive'): StorageDriver {
+  const base = resolve(root);
+
+  const pathFor = (key: string) => {
+    const path = resolve(join(base, key));
+    // Keys come from our own code, but never let one escape the archive directory
+    if (!path.startsWith(base + '/')) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return path;
+  };
+
+  return {
+    name: 'filesystem',
+    async put(key, data) {
+      const path = pathFor(key);
+      mkdirSync(dirname(path), { recursive: true });
+      await Bun.write(path, data);
+    },
+    async get(key) {
+      const file = Bun.file(pathFor(key));
+      return await file.exists() ? file : null;
+    },
+    async delete(key) {
+      try {
+        unlinkSync(pathFor(key));
+      } catch {
+        // Already gone
+      }
+    }
+  };
+}
+
+// Works with AWS S3 and S3-compatible servers such as MinIO (set S3_ENDPOINT)
+export function createS3Storage(): StorageDriver {
+  const bucket = Bun.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required for the s3 storage driver');
+  }
+
+  const client = new S3Client({
+    bucket,
+    endpoint: Bun.env.S3_ENDPOINT,
+    region: Bun.env.S3_REGION,
+    accessKeyId: Bun.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: Bun.env.S3_SECRET_ACCESS_KEY
+  });
+  const prefix = Bun.env.S3_PREFIX ? Bun.env.S3_PREFIX.replace(/\/?$/, '/') : '';
+
+  return {
+    name: 's3',
+    async put(key, data, contentType) {
+      await client.write(prefix + key, data, { type: contentType });
+    },
+    async get(key) {
+      const file = client.file(prefix + key);
+      return await file.exists() ? file : null;
+    },
+    async delete(key) {
+      await client.delete(prefix + key);
+    }
+  };
+}
+
+const drivers = new Map<string, () => StorageDriver>([
+  ['filesystem', () => createFilesystemStorage()],
+  ['s3', () => createS3Storage()]
+]);
+
+// Other backends plug in here under the name ARCHIVE_STORAGE selects
+export function registerStorageDriver(name: string, factory: () => StorageDriver) {
+  drivers.set(name, factory);
+}
+
+export function getStorageDriver(name: string): StorageDriver {
+  const factory = drivers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown storage driver "${name}", available: ${[...drivers.keys()].join(', ')}`);
+  }
+  return factory();
+}
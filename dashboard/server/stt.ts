@@ -0,0 +1,114 @@
+import type { LiveTranscriptResult, Speaker } from "./types";
+
+export interface SttSessionOptions {
+  callSid: string;
+  speaker: Speaker;
+  onResult: (result: LiveTranscriptResult) => void;
+}
+
+// One session per call and speaker; audio arrives as 8kHz mono μ-law frames
+export interface StreamingSttSession {
+  write(audio: Uint8Array): void;
+  close(): void;
+}
+
+export interface StreamingSttEngine {
+  name: string;
+  createSession(options: SttSessionOptions): StreamingSttSession;
+}
+
+const SAMPLE_RATE = 8000;
+
+// G.711 μ-law to 16-bit linear PCM
+export function decodeMulaw(byte: number): number {
+  const value = ~byte & 0xff;
+  const sign = value & 0x80;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const sample = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+  return sign ? -sample : sample;
+}
+
+function rms(audio: Uint8Array) {
+  let sum = 0;
+  for (const byte of audio) {
+    const sample = decodeMulaw(byte);
+    sum += sample * sample;
+  }
+  return audio.length ? Math.sqrt(sum / audio.length) : 0;
+}
+
+// Offline engine for local development and tests: it does no recognition, it
+// only detects speech by energy and reports each utterance with its length
+export function createStubSttEngine(options: {
+  speechThreshold?: number;
+  silenceMs?: number;
+  partialEveryMs?: number;
+} = {}): StreamingSttEngine {
+  const speechThreshold = options.speechThreshold ?? 500;
+  const silenceMs = options.silenceMs ?? 600;
+  const partialEveryMs = options.partialEveryMs ?? 500;
+
+  return {
+    name: 'stub',
+    createSession({ speaker, onResult }) {
+      let speechMs = 0;
+      let silentMs = 0;
+      let sinceLastPartialMs = 0;
+      let utterance = 0;
+
+      const describe = () => `[${speaker} utterance ${utterance}, ${(speechMs / 1000).toFixed(1)}s]`;
+
+      const finish = () => {
+        if (speechMs > 0) {
+          onResult({ text: describe(), isFinal: true });
+        }
+        speechMs = 0;
+        silentMs = 0;
+        sinceLastPartialMs = 0;
+      };
+
+      return {
+        write(audio) {
+          const frameMs = (audio.length / SAMPLE_RATE) * 1000;
+
+          if (rms(audio) >= speechThreshold) {
+            if (speechMs === 0) utterance++;
+            speechMs += frameMs;
+            silentMs = 0;
+            sinceLastPartialMs += frameMs;
+
+            if (sinceLastPartialMs >= partialEveryMs) {
+              sinceLastPartialMs = 0;
+              onResult({ text: describe(), isFinal: false });
+            }
+            return;
+          }
+
+          if (speechMs > 0) {
+            silentMs += frameMs;
+            if (silentMs >= silenceMs) finish();
+          }
+        },
+        close: finish
+      };
+    }
+  };
+}
+
+const engines = new Map<string, () => StreamingSttEngine>([
+  ['stub', () => createStubSttEngine()]
+]);
+
+// Real providers plug in here under the name STT_ENGINE selects
+export function registerSttEngine(name: string, factory: () => StreamingSttEngine) {
+  engines.set(name, factory);
+}
+
+export function getSttEngine(name: string): StreamingSttEngine {
+  const factory = engines.get(name);
+  if (!factory) {
+    throw new Error(`Unknown STT engine "${name}", available: ${[...engines.keys()].join(', ')}`);
+  }
+  return factory();
+}
@@ -0,0 +1,65 @@
+import type { Subprocess } from "bun";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export interface TestServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+function freePort() {
+  const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = probe.port;
+  probe.stop(true);
+  return port;
+}
+
+async function waitForServer(url: string, proc: Subprocess) {
+  const deadline = Date.now() + 10_000;
+  while (Date.now() < deadline) {
+    if (proc.exitCode !== null) {
+      throw new Error(`Bun server exited with code ${proc.exitCode}`);
+    }
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await Bun.sleep(50);
+    }
+  }
+  throw new Error('Bun server did not start within 10 seconds');
+}
+
+// Run server/index.ts in its own process and working directory, since it reads
+// its settings and opens its database when imported
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const workDir = mkdtempSync(join(tmpdir(), 'dashboard-server-'));
+  mkdirSync(join(workDir, 'data'));
+
+  const port = freePort();
+  const proc = Bun.spawn([process.execPath, join(import.meta.dir, 'index.ts')], {
+    cwd: workDir,
+    env: { ...Bun.env, BUN_PORT: String(port), ...env },
+    stdout: 'ignore',
+    stderr: 'ignore'
+  });
+
+  const url = `http://127.0.0.1:${port}`;
+  try {
+    await waitForServer(url, proc);
+  } catch (error) {
+    proc.kill();
+    rmSync(workDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    url,
+    stop: async () => {
+      proc.kill();
+      await proc.exited;
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  };
+}
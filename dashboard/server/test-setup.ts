@@ -0,0 +1,21 @@
+import { afterAll } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// The server modules read their settings once, when first imported
+Bun.env.TWILIO_ACCOUNT_SID = 'ACtest';
+Bun.env.TWILIO_AUTH_TOKEN = 'test-auth-token';
+Bun.env.TWILIO_SERVICE_SID = 'GAtest';
+Bun.env.PUBLIC_URL = 'https://dashboard.example.com';
+Bun.env.BUN_SERVICE_TOKEN = 'test-service-token';
+
+// db.ts opens data/calls.sqlite relative to the working directory, so each run
+// gets an empty database that is removed afterwards
+const workDir = mkdtempSync(join(tmpdir(), 'dashboard-test-'));
+mkdirSync(join(workDir, 'data'));
+process.chdir(workDir);
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
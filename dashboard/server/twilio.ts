@@ -0,0 +1,257 @@
+import type {
+  TwilioTranscript,
+  TwilioMedia,
+  TwilioOperatorResult,
+  TranscriptSentence,
+  RecordingSettings
+} from "./types";
+
+export const TWILIO_ACCOUNT_SID = Bun.env.TWILIO_ACCOUNT_SID!;
+export const TWILIO_AUTH_TOKEN = Bun.env.TWILIO_AUTH_TOKEN!;
+export const TWILIO_SERVICE_SID = Bun.env.TWILIO_SERVICE_SID!;
+
+if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_SERVICE_SID) {
+  console.error("Missing Twilio credentials");
+  process.exit(1);
+}
+
+export function twilioAuthHeader() {
+  return `Basic ${btoa(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`)}`;
+}
+
+const CALLS_API = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Calls`;
+
+async function assertOk(response: Response, label: string) {
+  if (!response.ok) {
+    console.error(`${label} API error:`, {
+      status: response.status,
+      statusText: response.statusText
+    });
+    const errorText = await response.text();
+    console.error('Error response:', errorText);
+    throw new Error(`${label} API returned ${response.status}`);
+  }
+}
+
+// Point the call's status callback at us. The Calls update API takes no
+// StatusCallbackEvent, so for a call we did not create Twilio only reports how
+// it ended (completed, busy, no-answer, failed, canceled)
+export async function registerStatusCallback(callSid: string) {
+  try {
+    const response = await fetch(`${CALLS_API}/${callSid}.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': twilioAuthHeader(),
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        'StatusCallback': `${process.env.PUBLIC_URL}/call-status`,
+        'StatusCallbackMethod': 'POST'
+      }).toString()
+    });
+
+    await assertOk(response, 'Update call');
+    console.log('📡 Status callback registered:', { callSid: callSid.slice(-8) });
+  } catch (error) {
+    console.error('Error registering status callback:', error);
+  }
+}
+
+export async function startRecording(callSid: string, settings: RecordingSettings) {
+  try {
+    const recordingResponse = await fetch(`${CALLS_API}/${callSid}/Recordings.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': twilioAuthHeader(),
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        'RecordingStatusCallback': `${process.env.PUBLIC_URL}/recording-status`,
+        'RecordingChannels': settings.channels,
+        'RecordingTrack': settings.track,
+        'Trim': settings.trim
+      }).toString()
+    });
+
+    const data = await recordingResponse.json();
+    console.log('🎥 Recording started:', {
+      callSid: data.call_sid.slice(-4),
+      recordingSid: data.sid.slice(-4),
+      channels: settings.channels,
+      track: settings.track
+    });
+  } catch (error) {
+    console.error('Error starting recording:', error);
+  }
+}
+
+// Twilio answers an inbound call as it runs the TwiML of the first webhook, and
+// calls Voiceflow places reach the first webhook once answered. Starting the
+// recording from that TwiML catches the greeting, which a Recordings API call
+// made after a later webhook or status callback would miss.
+export function injectRecording(twiml: string, settings: RecordingSettings) {
+  const recording = '<Start><Recording'
+    + ` recordingStatusCallback="${process.env.PUBLIC_URL}/recording-status"`
+    + ' recordingStatusCallbackMethod="POST"'
+    + ` channels="${settings.channels}" track="${settings.track}" trim="${settings.trim}"/></Start>`;
+  return twiml.replace(/<Response(\s[^>]*)?>/, match => match + recording);
+}
+
+// Create a Voice Intelligence transcript (with PII redaction) for a recording
+export async function createTranscript(recordingSid: string): Promise<TwilioTranscript> {
+  const response = await fetch('https://intelligence.twilio.com/v2/Transcripts', {
+    method: 'POST',
+    headers: {
+      'Authorization': twilioAuthHeader(),
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({
+      'ServiceSid': TWILIO_SERVICE_SID,
+      'Channel': JSON.stringify({
+        media_properties: {
+          source_sid: recordingSid
+        }
+      })
+    }).toString()
+  });
+
+  await assertOk(response, 'Create transcript');
+
+  const transcript = await response.json();
+  if (!transcript || !transcript.sid) {
+    console.error('Invalid transcript creation response:', transcript);
+    throw new Error('Invalid transcript creation response');
+  }
+
+  console.log('🎯 Transcript created:', {
+    transcriptSid: transcript.sid.slice(-8),
+    status: transcript.status
+  });
+
+  return transcript;
+}
+
+export async function fetchTranscript(transcriptSid: string): Promise<TwilioTranscript> {
+  const response = await fetch(`https://intelligence.twilio.com/v2/Transcripts/${transcriptSid}`, {
+    headers: { 'Authorization': twilioAuthHeader() }
+  });
+
+  await assertOk(response, 'Transcript');
+
+  const transcript = await response.json();
+  if (!transcript || !transcript.sid) {
+    console.error('Invalid transcript response:', transcript);
+    throw new Error('Invalid transcript response format');
+  }
+
+  console.log('🎯 Transcript status:', {
+    transcriptSid: transcript.sid.slice(-8),
+    status: transcript.status
+  });
+
+  return transcript;
+}
+
+// Get the PII-redacted media URL of a completed transcript
+export async function fetchTranscriptMedia(transcript: TwilioTranscript): Promise<TwilioMedia> {
+  const response = await fetch(transcript.links.media, {
+    headers: { 'Authorization': twilioAuthHeader() }
+  });
+
+  await assertOk(response, 'Media');
+
+  const media = await response.json();
+  if (!media || !media.media_url) {
+    console.error('Invalid media response:', media);
+    throw new Error('Invalid media response format');
+  }
+
+  console.log('🔒 PII media available:', {
+    transcriptSid: transcript.sid.slice(-8)
+  });
+
+  return media;
+}
+
+export async function fetchTranscriptSentences(transcript: TwilioTranscript): Promise<TranscriptSentence[]> {
+  const response = await fetch(transcript.links.sentences, {
+    headers: { 'Authorization': twilioAuthHeader() }
+  });
+
+  await assertOk(response, 'Sentences');
+
+  const { sentences } = await response.json();
+  if (!sentences) {
+    console.error('Invalid sentences response');
+    throw new Error('Invalid sentences response format');
+  }
+
+  console.log('📝 Sentences fetched:', sentences.length);
+
+  return sentences;
+}
+
+// Results of the Language Operators attached to the Voice Intelligence service
+export async function fetchOperatorResults(transcript: TwilioTranscript): Promise<TwilioOperatorResult[]> {
+  const response = await fetch(transcript.links.operator_results, {
+    headers: { 'Authorization': twilioAuthHeader() }
+  });
+
+  await assertOk(response, 'Operator results');
+
+  const { operator_results } = await response.json();
+  if (!operator_results) {
+    console.error('Invalid operator results response');
+    throw new Error('Invalid operator results response format');
+  }
+
+  console.log('🧠 Operator results fetched:', operator_results.length);
+
+  return operator_results;
+}
+
+// Deletes succeed when the resource is already gone, so a purge can be retried
+async function deleteResource(url: string, label: string) {
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: { 'Authorization': twilioAuthHeader() }
+  });
+
+  if (response.status === 404) return;
+  await assertOk(response, label);
+}
+
+export async function deleteRecording(recordingSid: string) {
+  await deleteResource(
+    `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Recordings/${recordingSid}.json`,
+    'Delete recording'
+  );
+  console.log('🗑️ Recording deleted:', { recordingSid: recordingSid.slice(-8) });
+}
+
+// Also removes the PII-redacted media and sentences of the transcript
+export async function deleteTranscript(transcriptSid: string) {
+  await deleteResource(
+    `https://intelligence.twilio.com/v2/Transcripts/${transcriptSid}`,
+    'Delete transcript'
+  );
+  console.log('🗑️ Transcript deleted:', { transcriptSid: transcriptSid.slice(-8) });
+}
+
+// Presigned media URLs expire; ask the transcript for a fresh one
+export async function refreshTranscriptMediaUrl(transcriptSid: string) {
+  const transcript = await fetchTranscript(transcriptSid);
+  const media = await fetchTranscriptMedia(transcript);
+  return media.media_url;
+}
+
+// Raw recording audio as WAV, which keeps both channels of a dual-channel recording
+export async function fetchRecordingAudio(recordingSid: string) {
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Recordings/${recordingSid}.wav`,
+    { headers: { 'Authorization': twilioAuthHeader() } }
+  );
+
+  await assertOk(response, 'Recording media');
+  return response;
+}
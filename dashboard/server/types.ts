@@ -6,9 +6,24 @@ export interface TwilioTranscript {
   links: {
     media: string;
     sentences: string;
+    operator_results: string;
   };
 }
 
+// One Language Operator's output for a transcript; which fields are set
+// depends on operator_type
+export interface TwilioOperatorResult {
+  operator_type: string;
+  name: string;
+  operator_sid: string;
+  predicted_label: string | null;
+  predicted_probability: number | string | null;
+  label_probabilities: Record<string, number | string> | null;
+  utterance_results: { label_probabilities?: Record<string, number | string>; predicted_label?: string | null }[] | null;
+  extract_results: Record<string, string[]> | null;
+  text_generation_results: { result?: string } | null;
+}
+
 export interface TwilioMedia {
   media_url: string;
 }
@@ -16,10 +31,103 @@ export interface TwilioMedia {
 export interface TranscriptSentence {
   media_channel: number;
   transcript: string;
+  sentence_index: number;
+  start_time: number | string;
+  end_time: number | string;
+  confidence: number | string | null;
+}
+
+// Times are seconds from the start of the recording
+export interface TranscriptLine {
+  speaker: 'customer' | 'assistant';
+  text: string;
+  sentenceIndex?: number;
+  startTime?: number;
+  endTime?: number;
+  confidence?: number;
+}
+
+// Values of Twilio's CallStatus parameter; the "answered" event arrives as in-progress
+export type CallStatus =
+  | 'queued'
+  | 'initiated'
+  | 'ringing'
+  | 'in-progress'
+  | 'completed'
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'canceled';
+
+export interface CallStatusEvent {
+  status: CallStatus;
+  timestamp: string;
+}
+
+export interface CallSession {
+  callSid: string;
+  from: string;
+  to: string;
+  direction?: string;
+  callerName?: string;
+  fromCity?: string;
+  fromState?: string;
+  fromZip?: string;
+  fromCountry?: string;
+  voiceflowPath?: string;
+  voiceflow?: VoiceflowLink;
+}
+
+// Which Voiceflow project and user (session) handled a call, taken from the
+// webhook path and parameters
+export interface VoiceflowLink {
+  projectId: string;
+  userId?: string;
+  sessionId?: string;
+  versionId?: string;
+}
+
+// One step of a Voiceflow conversation, normalized from its transcript
+export interface VoiceflowTurn {
+  type: 'intent' | 'request' | 'block' | 'speak';
+  // Intent name, block ID or name, or the text said or heard
+  label: string;
+  time?: string;
+  // Seconds from the start of the recording, to line up with transcript lines
+  offset?: number;
+  confidence?: number;
+}
+
+// Filters accepted by GET /calls; dates are YYYY-MM-DD (UTC), durations in seconds
+export interface CallFilters {
+  search?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  fromNumber?: string;
+  toNumber?: string;
+  direction?: 'inbound' | 'outbound';
+  customerSaid?: string;
+  assistantSaid?: string;
+  // Language Operator results; text matches ignore case
+  sentiment?: string;
+  topic?: string;
+  entity?: string;
+  classifier?: string;
+  // Inclusive bounds on the conversation metrics, e.g. { overlaps: { min: 2 } }
+  metrics?: Partial<Record<CallMetric, { min?: number; max?: number }>>;
+}
+
+// A transcript excerpt around a search match, split into matched and plain parts
+export interface SearchHighlight {
+  speaker: 'customer' | 'assistant';
+  parts: { text: string; match: boolean }[];
 }
 
 export interface CallRecord {
   id: string;
+  callSid?: string;
   from: string;
   to: string;
   from_number: string;
@@ -28,13 +136,353 @@ export interface CallRecord {
   recordingUrl: string;
   piiUrl: string;
   createdAt: string;
-  transcript: {
-    speaker: 'customer' | 'assistant';
-    text: string;
-  }[];
+  direction?: string;
+  callerName?: string;
+  callerLocation?: string;
+  voiceflowPath?: string;
+  voiceflow?: VoiceflowLink;
+  startedAt?: string;
+  status?: CallStatus;
+  statusHistory?: CallStatusEvent[];
+  transcript: TranscriptLine[];
+  highlights?: SearchHighlight[];
+  legalHold?: LegalHold;
+  archive?: Partial<Record<AudioVariant, ArchivedObject>>;
+  insights?: CallInsights;
+  metrics?: CallMetrics;
+}
+
+// A call as the dashboard lists it. Transcripts are read one call at a time,
+// so every read is in the audit log. Twilio media URLs are never sent; audio
+// is played through GET /calls/:id/audio.
+export type VisibleCall = Omit<CallRecord, 'transcript' | 'recordingUrl' | 'piiUrl'> & {
+  transcript?: undefined;
+  recordingUrl?: undefined;
+  piiUrl?: undefined;
+};
+
+// Conversation metrics from the transcript's sentence timings, in seconds
+export interface CallMetrics {
+  customerTalkTime: number;
+  assistantTalkTime: number;
+  // Longest stretch with nobody speaking, between the first and last sentence
+  longestSilence: number;
+  // Sentences that start while the other speaker is still talking
+  overlaps: number;
+  // Average time from the customer finishing to the assistant replying;
+  // missing when the assistant never replied
+  responseLatency?: number;
+  turns: number;
+}
+
+export type CallMetric = keyof CallMetrics;
+
+export interface CallSort {
+  field: 'createdAt' | 'duration' | CallMetric;
+  order: 'asc' | 'desc';
+}
+
+// A held call can't be deleted by anyone, including the retention scheduler
+export interface LegalHold {
+  by: string;
+  reason: string;
+  at: string;
+}
+
+// A copy of one audio variant in our own storage, keyed as the driver stores it
+export interface ArchivedObject {
+  driver: string;
+  key: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  archivedAt: string;
+  // Set once the Twilio copy was deleted and the archive is the only one
+  twilioDeletedAt?: string;
+}
+
+// What Voice Intelligence Language Operators concluded about a call
+export interface CallInsights {
+  sentiment?: string;
+  sentimentScore?: number;
+  summary?: string;
+  topics: string[];
+  entities: { type: string; value: string }[];
+  // Any other classification operator, e.g. a custom "Call outcome"
+  classifiers: { name: string; label: string; probability?: number }[];
+}
+
+export type DeleteCallResult = 'deleted' | 'not_found' | 'legal_hold';
+
+export type JobState =
+  | 'recording_received'
+  | 'transcribing'
+  | 'fetching_media'
+  | 'saved'
+  | 'failed';
+
+export interface RecordingJob {
+  id: number;
+  call_sid: string;
+  recording_sid: string;
+  recording_url: string;
+  duration: string;
+  transcript_sid: string | null;
+  state: JobState;
+  attempts: number;
+  next_run_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecordingSettings {
+  record: boolean;
+  channels: 'mono' | 'dual';
+  track: 'inbound' | 'outbound' | 'both';
+  trim: 'trim-silence' | 'do-not-trim';
+}
+
+export interface RecordingRule extends Partial<RecordingSettings> {
+  // Every field that is set must match; patterns are regular expressions
+  match?: {
+    direction?: 'inbound' | 'outbound';
+    to?: string;
+    from?: string;
+    voiceflowPath?: string;
+  };
+}
+
+export interface RecordingRulesConfig {
+  default: Partial<RecordingSettings>;
+  rules: RecordingRule[];
+}
+
+// Where a Voiceflow webhook is forwarded, and what the caller hears when that fails
+export interface VoiceflowTarget {
+  baseUrl: string;
+  timeoutMs: number;
+  fallbackMessage: string;
+}
+
+// Per-project settings; apiKey is used to fetch the project's transcripts
+export interface VoiceflowProjectConfig extends Partial<VoiceflowTarget> {
+  apiKey?: string;
+}
+
+export interface VoiceflowRoute extends Partial<VoiceflowTarget> {
+  // Every field that is set must match; "to" is a regular expression
+  match?: {
+    to?: string;
+    pathPrefix?: string;
+  };
+}
+
+export interface VoiceflowRoutingConfig {
+  default: Partial<VoiceflowTarget>;
+  projects: Record<string, VoiceflowProjectConfig>;
+  routes: VoiceflowRoute[];
 }
 
+// Days to keep each part of a call; null or missing keeps it forever
+export interface RetentionPolicy {
+  recordingDays?: number | null;
+  transcriptDays?: number | null;
+}
+
+export interface RetentionRule extends RetentionPolicy {
+  // Every field that is set must match; patterns are regular expressions
+  match?: {
+    direction?: 'inbound' | 'outbound';
+    to?: string;
+    from?: string;
+  };
+}
+
+export interface RetentionRulesConfig {
+  default: RetentionPolicy;
+  rules: RetentionRule[];
+}
+
+// One step the retention scheduler will take (or would take, in a dry run)
+export interface RetentionAction {
+  callId: string;
+  callSid: string | null;
+  toNumber: string;
+  createdAt: string;
+  ageDays: number;
+  // "rules[0]" or "default"
+  policy: string;
+  action: 'delete_recording' | 'delete_call';
+  legalHold: boolean;
+}
+
+// Entity types the transcript redaction engine detects itself; custom
+// patterns add their own names
+export type PiiEntity = 'PHONE_NUMBER' | 'EMAIL_ADDRESS' | 'CREDIT_CARD' | 'SSN' | 'DATE_OF_BIRTH';
+
+export interface CustomPiiPattern {
+  // Used in the token, e.g. ORDER_ID becomes [ORDER_ID]
+  name: string;
+  pattern: string;
+  ignoreCase?: boolean;
+}
+
+export interface TranscriptRedactionConfig {
+  // Every built-in entity is redacted unless turned off here
+  entities: Partial<Record<PiiEntity, boolean>>;
+  custom: CustomPiiPattern[];
+}
+
+// What a token in a stored sentence replaced; `position` is where the token
+// starts in the redacted text
+export interface TranscriptRedaction {
+  sentenceIndex: number;
+  entity: string;
+  position: number;
+  value: string;
+}
+
+// Redacted is the Voice Intelligence PII-redacted media; raw is the Twilio Recording
+export type AudioVariant = 'redacted' | 'raw';
+
+// Recordings are dual channel; a track is both channels or one speaker's
+export type AudioTrack = 'mixed' | Speaker;
+
+// Where Twilio replaced PII with a beep, from the redacted sentence that holds it
+export interface RedactionRegion {
+  speaker: Speaker;
+  start: number;
+  end: number;
+  // Redaction tokens in the sentence, e.g. ["PHONE_NUMBER"]
+  labels: string[];
+}
+
+// Peaks of the redacted audio, one list per channel (customer first), each
+// evenly spread over `duration` seconds
+export interface CallWaveform {
+  duration: number;
+  peaks: number[][];
+  redactions: RedactionRegion[];
+}
+
+export type Speaker = 'customer' | 'assistant';
+
+// Viewers see redacted audio only, reviewers also see raw recordings, admins can delete
+export type Role = 'viewer' | 'reviewer' | 'admin';
+
+export interface DashboardUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+export type AuditAction =
+  | 'view_transcript'
+  | 'play_audio'
+  | 'download_audio'
+  | 'export'
+  | 'delete'
+  | 'purge_recording'
+  | 'set_legal_hold'
+  | 'release_legal_hold'
+  | 'reveal_pii';
+
+export interface AuditEvent {
+  id: number;
+  createdAt: string;
+  username: string;
+  role: Role;
+  action: AuditAction;
+  callId: string;
+  details: Record<string, unknown> | null;
+}
+
+// Parsed from GET /audit-events query parameters
+export interface AuditFilters {
+  username?: string;
+  callId?: string;
+  action?: AuditAction;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+// Parsed from the /analytics/* query parameters; dates are UTC and inclusive
+export interface AnalyticsRange {
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export interface CallVolume {
+  byDay: { day: string; calls: number }[];
+  // 0-23, UTC; hours without calls are included with 0
+  byHour: { hour: number; calls: number }[];
+}
+
+// In seconds; null when the range has no calls
+export interface DurationStats {
+  calls: number;
+  average: number | null;
+  p95: number | null;
+}
+
+// Seconds spoken per channel, over calls whose transcript has timings
+export interface TalkRatio {
+  calls: number;
+  customerSeconds: number;
+  assistantSeconds: number;
+}
+
+export interface DestinationCount {
+  number: string;
+  calls: number;
+}
+
+// Recording jobs by outcome; pending jobs are still being retried
+export interface TranscriptionStats {
+  saved: number;
+  failed: number;
+  pending: number;
+  failureRate: number | null;
+}
+
+// Calls that ended without being answered, e.g. busy or no-answer
+export interface DroppedCalls {
+  ended: number;
+  dropped: number;
+  byStatus: { status: CallStatus; calls: number }[];
+}
+
+export interface LiveTranscriptResult {
+  text: string;
+  isFinal: boolean;
+}
+
+// Messages pushed to dashboard clients while a call is still in progress
+export type LiveCallMessage =
+  | {
+      type: 'live_call';
+      status: 'started' | 'ended';
+      callSid: string;
+      from: string;
+      to: string;
+      timestamp: string;
+    }
+  | {
+      type: 'live_transcript';
+      callSid: string;
+      speaker: Speaker;
+      text: string;
+      isFinal: boolean;
+      timestamp: string;
+    };
+
+// Dashboard clients and Twilio Media Streams share the Bun WebSocket server
+export type SocketData = { kind: 'dashboard'; username: string; role: Role } | { kind: 'media-stream' };
+
 export interface WebSocketClient {
-  socket: ServerWebSocket<unknown>;
+  socket: ServerWebSocket<SocketData>;
   timestamp: number;
+  // Live calls whose transcript this client was sent and that are audited already
+  liveCalls: Set<string>;
 }
@@ -0,0 +1,46 @@
+// Manage local dashboard users:
+//   bun server/users.ts list
+//   bun server/users.ts add <username> <viewer|reviewer|admin>
+//   bun server/users.ts remove <username>
+import { deleteUser, listUsers, saveUser } from "./db";
+import { ROLES, isRole } from "./roles";
+
+const [command, username, role] = process.argv.slice(2);
+
+switch (command) {
+  case 'list': {
+    console.table(listUsers());
+    break;
+  }
+
+  case 'add': {
+    if (!username || !isRole(role)) {
+      console.error(`Usage: bun server/users.ts add <username> <${ROLES.join('|')}>`);
+      process.exit(1);
+    }
+
+    const password = Bun.env.USER_PASSWORD || prompt('Password:');
+    if (!password) {
+      console.error('A password is required');
+      process.exit(1);
+    }
+
+    saveUser({ username, passwordHash: await Bun.password.hash(password), role });
+    console.log(`Saved ${username} as ${role}`);
+    break;
+  }
+
+  case 'remove': {
+    if (!username) {
+      console.error('Usage: bun server/users.ts remove <username>');
+      process.exit(1);
+    }
+
+    console.log(deleteUser(username) ? `Removed ${username}` : `No user named ${username}`);
+    break;
+  }
+
+  default:
+    console.error('Usage: bun server/users.ts <list|add|remove> [username] [role]');
+    process.exit(1);
+}
@@ -0,0 +1,167 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import type { CallRecord } from "./types";
+import { recordCallStatus, saveCallSession, saveCalls } from "./db";
+
+const PROJECT_ID = 'project-1';
+
+let transcripts: { _id: string; sessionID?: string }[] = [];
+let turns: Record<string, unknown[]> = {};
+let requests: { path: string; authorization: string | null }[] = [];
+let failWith: number | null = null;
+
+// Stands in for the Voiceflow transcripts API
+const api = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const { pathname } = new URL(req.url);
+    requests.push({ path: pathname, authorization: req.headers.get('authorization') });
+
+    if (failWith) return new Response('Unavailable', { status: failWith });
+
+    const [, , , projectId, transcriptId] = pathname.split('/');
+    if (projectId !== PROJECT_ID) return Response.json([]);
+    return Response.json(transcriptId ? turns[transcriptId] ?? [] : transcripts);
+  }
+});
+
+// voiceflow.ts creates its client when imported
+Bun.env.VOICEFLOW_API_URL = api.url.origin;
+Bun.env.VOICEFLOW_API_KEY = 'VF.DM.test-key';
+const { createVoiceflowApiClient, getCallVoiceflow, parseVoiceflowWebhook } = await import("./voiceflow");
+
+afterAll(() => {
+  api.stop(true);
+});
+
+beforeEach(() => {
+  transcripts = [{ _id: 'tr-other', sessionID: 'someone-else' }, { _id: 'tr-1', sessionID: 'user-1' }];
+  turns = {
+    'tr-1': [
+      { type: 'request', payload: { type: 'launch' }, startTime: '2025-01-01T10:00:00.000Z' },
+      { type: 'block', payload: { payload: { blockID: 'b1', blockName: 'Welcome' } }, startTime: '2025-01-01T10:00:01.000Z' },
+      { type: 'speak', payload: { payload: { message: 'How can I help?' } }, startTime: '2025-01-01T10:00:02.000Z' },
+      {
+        type: 'request',
+        payload: { type: 'intent', payload: { intent: { name: 'billing' }, confidence: 0.92 } },
+        startTime: '2025-01-01T10:00:05.000Z'
+      },
+      { type: 'request', payload: { type: 'text', payload: 'My card is 4111 1111 1111 1111' }, startTime: '2025-01-01T10:00:08.000Z' },
+      { type: 'debug', payload: { message: 'dropped' } }
+    ]
+  };
+  requests = [];
+  failWith = null;
+});
+
+describe('parseVoiceflowWebhook', () => {
+  test('takes the project and user from the path', () => {
+    expect(parseVoiceflowWebhook('/v1/twilio/webhooks/project-1/user/%2B14155550100/answer', new URLSearchParams()))
+      .toEqual({ projectId: 'project-1', userId: '+14155550100', sessionId: undefined, versionId: undefined });
+  });
+
+  test('falls back to the webhook parameters', () => {
+    const params = new URLSearchParams({ userID: 'user-1', sessionID: 'session-1', versionID: 'production' });
+    expect(parseVoiceflowWebhook('/v1/twilio/webhooks/project-1/answer', params))
+      .toEqual({ projectId: 'project-1', userId: 'user-1', sessionId: 'session-1', versionId: 'production' });
+  });
+
+  test('ignores other paths', () => {
+    expect(parseVoiceflowWebhook('/recording-status', new URLSearchParams())).toBeNull();
+    expect(parseVoiceflowWebhook('/v1/twilio/webhooks/', new URLSearchParams())).toBeNull();
+  });
+});
+
+describe('createVoiceflowApiClient', () => {
+  const client = createVoiceflowApiClient({ baseUrl: api.url.origin, apiKey: 'VF.DM.test-key' });
+
+  test("fetches the session's transcript and keeps intents, blocks and what was said", async () => {
+    const result = await client.fetchTurns({ projectId: PROJECT_ID, userId: 'user-1' });
+
+    expect(requests).toEqual([
+      { path: `/v2/transcripts/${PROJECT_ID}`, authorization: 'VF.DM.test-key' },
+      { path: `/v2/transcripts/${PROJECT_ID}/tr-1`, authorization: 'VF.DM.test-key' }
+    ]);
+    expect(result).toEqual([
+      { type: 'request', label: 'launch', time: '2025-01-01T10:00:00.000Z' },
+      { type: 'block', label: 'Welcome', time: '2025-01-01T10:00:01.000Z' },
+      { type: 'speak', label: 'How can I help?', time: '2025-01-01T10:00:02.000Z' },
+      { type: 'intent', label: 'billing', time: '2025-01-01T10:00:05.000Z', confidence: 0.92 },
+      { type: 'request', label: 'My card is [CREDIT_CARD]', time: '2025-01-01T10:00:08.000Z' }
+    ]);
+  });
+
+  test('prefers the session ID over the user ID', async () => {
+    transcripts = [{ _id: 'tr-1', sessionID: 'session-1' }];
+    expect(await client.fetchTurns({ projectId: PROJECT_ID, userId: 'user-1', sessionId: 'session-1' })).toHaveLength(5);
+  });
+
+  test('returns null when Voiceflow has no transcript for the session', async () => {
+    expect(await client.fetchTurns({ projectId: PROJECT_ID, userId: 'user-2' })).toBeNull();
+    expect(await client.fetchTurns({ projectId: PROJECT_ID })).toBeNull();
+  });
+
+  test('throws when the API fails', async () => {
+    failWith = 500;
+    await expect(client.fetchTurns({ projectId: PROJECT_ID, userId: 'user-1' }))
+      .rejects.toThrow(`Voiceflow API /v2/transcripts/${PROJECT_ID} returned 500`);
+  });
+});
+
+describe('getCallVoiceflow', () => {
+  const CALL_ID = 'GTvoiceflow';
+  const CALL_SID = 'CA00000000000000000000000000000024';
+
+  saveCallSession({
+    callSid: CALL_SID,
+    from: '+14155550100',
+    to: '+14155550199',
+    voiceflowPath: `/v1/twilio/webhooks/${PROJECT_ID}/answer`,
+    voiceflow: { projectId: PROJECT_ID, userId: 'user-1' }
+  });
+  saveCalls({
+    id: CALL_ID,
+    callSid: CALL_SID,
+    from: '+14155550100',
+    to: '+14155550199',
+    from_number: '+14155550100',
+    to_number: '+14155550199',
+    duration: '30',
+    recordingUrl: '',
+    piiUrl: '',
+    createdAt: '',
+    transcript: []
+  } as CallRecord, CALL_ID);
+
+  const labels = async () => {
+    const result = await getCallVoiceflow(CALL_ID);
+    if (!result.ok) throw new Error(result.details);
+    return result.voiceflow.turns.map(turn => turn.label);
+  };
+
+  test('refetches turns cached before the call ended, then keeps them', async () => {
+    const transcriptRequests = () => requests.filter(request => request.path.endsWith('/tr-1')).length;
+
+    expect(await labels()).toHaveLength(5);
+    expect(await labels()).toHaveLength(5);
+    expect(transcriptRequests()).toBe(1);
+
+    // The conversation went on after the first fetch, and then the call ended
+    turns['tr-1'].push({ type: 'speak', payload: { payload: { message: 'Goodbye' } } });
+    recordCallStatus({ callSid: CALL_SID, status: 'completed', timestamp: new Date(Date.now() + 1).toISOString() });
+    // fetched_at has whole seconds, so move past the second the call ended in
+    await Bun.sleep(1000 - (Date.now() % 1000) + 50);
+
+    expect((await labels()).at(-1)).toBe('Goodbye');
+    expect(transcriptRequests()).toBe(2);
+
+    expect((await labels()).at(-1)).toBe('Goodbye');
+    expect(transcriptRequests()).toBe(2);
+  });
+
+  test('keeps stale turns when Voiceflow no longer has the transcript', async () => {
+    recordCallStatus({ callSid: CALL_SID, status: 'completed', timestamp: new Date(Date.now() + 60_000).toISOString() });
+    transcripts = [];
+
+    expect((await labels()).at(-1)).toBe('Goodbye');
+  });
+});
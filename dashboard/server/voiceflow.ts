@@ -0,0 +1,203 @@
+import type { VoiceflowLink, VoiceflowTurn } from "./types";
+import { getCall, getCallSession, getVoiceflowTurns, saveVoiceflowTurns } from "./db";
+import { redactText } from "./redaction";
+import { getVoiceflowProject } from "./routing";
+
+const WEBHOOK_PREFIX = '/v1/twilio/webhooks/';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Where a call's Voiceflow conversation comes from. The default reads the
+// Voiceflow transcripts API; a private deployment or a test double can be
+// registered instead.
+export interface VoiceflowTranscriptClient {
+  name: string;
+  // Null when Voiceflow has no transcript for the session (yet)
+  fetchTurns(link: VoiceflowLink): Promise<VoiceflowTurn[] | null>;
+}
+
+export type VoiceflowResult =
+  | { ok: true; voiceflow: { link: VoiceflowLink; turns: VoiceflowTurn[] } }
+  | { ok: false; status: number; error: string; details: string };
+
+// Webhook paths look like /v1/twilio/webhooks/{projectID}/...; the user ID is
+// either a ".../user/{userID}/..." path segment or a userID parameter
+export function parseVoiceflowWebhook(pathname: string, params: URLSearchParams): VoiceflowLink | null {
+  if (!pathname.startsWith(WEBHOOK_PREFIX)) return null;
+
+  const segments = pathname.slice(WEBHOOK_PREFIX.length).split('/').filter(Boolean).map(decodeURIComponent);
+  const projectId = segments[0];
+  if (!projectId) return null;
+
+  const userIndex = segments.indexOf('user', 1);
+  const param = (...names: string[]) => names.map(name => params.get(name)).find(Boolean) ?? undefined;
+
+  return {
+    projectId,
+    userId: (userIndex > 0 ? segments[userIndex + 1] : undefined) ?? param('userID', 'userId'),
+    sessionId: param('sessionID', 'sessionId'),
+    versionId: param('versionID', 'versionId')
+  };
+}
+
+interface RawTurn {
+  type: string;
+  payload?: unknown;
+  startTime?: string;
+}
+
+// Turn payloads are sometimes wrapped once more as { type, payload }
+function innerPayload(payload: unknown): Record<string, unknown> {
+  const outer = (payload ?? {}) as Record<string, unknown>;
+  return (outer.payload && typeof outer.payload === 'object' ? outer.payload : outer) as Record<string, unknown>;
+}
+
+// Requests are what the caller did (an intent, or raw text), traces what the
+// agent did (blocks it entered, what it said). Everything else is dropped.
+// Free text goes through transcript redaction like the Twilio lines.
+function toVoiceflowTurn(raw: RawTurn): VoiceflowTurn | null {
+  const time = raw.startTime;
+
+  if (raw.type === 'request') {
+    const request = (raw.payload ?? {}) as { type?: string; payload?: unknown };
+    const payload = innerPayload(raw.payload);
+    const intent = (payload.intent as { name?: string } | undefined)?.name;
+
+    if (request.type === 'intent' && intent) {
+      const confidence = typeof payload.confidence === 'number' ? payload.confidence : undefined;
+      return { type: 'intent', label: intent, time, confidence };
+    }
+    if (request.type === 'launch') {
+      return { type: 'request', label: 'launch', time };
+    }
+    if (typeof request.payload === 'string') {
+      return { type: 'request', label: redactText(request.payload).text, time };
+    }
+    return null;
+  }
+
+  const payload = innerPayload(raw.payload);
+
+  if (raw.type === 'block') {
+    const label = payload.blockName ?? payload.blockID;
+    return typeof label === 'string' ? { type: 'block', label, time } : null;
+  }
+  if (raw.type === 'speak' || raw.type === 'text') {
+    const message = payload.message;
+    return typeof message === 'string' ? { type: 'speak', label: redactText(message).text, time } : null;
+  }
+
+  return null;
+}
+
+export function createVoiceflowApiClient(options: { baseUrl?: string; apiKey?: string } = {}): VoiceflowTranscriptClient {
+  const baseUrl = (options.baseUrl ?? Bun.env.VOICEFLOW_API_URL ?? 'https://api.voiceflow.com').replace(/\/$/, '');
+  const apiKey = options.apiKey ?? Bun.env.VOICEFLOW_API_KEY;
+
+  // A project in the Voiceflow routes can bring its own key, for projects in other workspaces
+  const get = async (path: string, projectId: string) => {
+    const key = getVoiceflowProject(projectId).apiKey ?? apiKey;
+    if (!key) {
+      throw new Error(`VOICEFLOW_API_KEY is not set and project ${projectId} has no apiKey`);
+    }
+    const response = await fetch(`${baseUrl}${path}`, {
+      headers: { Authorization: key, Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Voiceflow API ${path} returned ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    name: 'api',
+    async fetchTurns(link) {
+      const sessionId = link.sessionId ?? link.userId;
+      if (!sessionId) return null;
+
+      const project = encodeURIComponent(link.projectId);
+      const transcripts = await get(`/v2/transcripts/${project}`, link.projectId) as { _id: string; sessionID?: string }[];
+      const transcript = transcripts.find(t => t.sessionID === sessionId);
+      if (!transcript) return null;
+
+      const turns = await get(`/v2/transcripts/${project}/${encodeURIComponent(transcript._id)}`, link.projectId) as RawTurn[];
+      return turns.map(toVoiceflowTurn).filter((turn): turn is VoiceflowTurn => turn !== null);
+    }
+  };
+}
+
+const clients = new Map<string, () => VoiceflowTranscriptClient>([
+  ['api', () => createVoiceflowApiClient()]
+]);
+
+// Other sources plug in here under the name VOICEFLOW_TRANSCRIPT_CLIENT selects
+export function registerVoiceflowClient(name: string, factory: () => VoiceflowTranscriptClient) {
+  clients.set(name, factory);
+}
+
+export function getVoiceflowClient(name: string): VoiceflowTranscriptClient {
+  const factory = clients.get(name);
+  if (!factory) {
+    throw new Error(`Unknown Voiceflow transcript client "${name}", available: ${[...clients.keys()].join(', ')}`);
+  }
+  return factory();
+}
+
+// VOICEFLOW_TRANSCRIPT_CLIENT names the client; the transcripts API by default
+function loadClient(): VoiceflowTranscriptClient {
+  try {
+    return getVoiceflowClient(Bun.env.VOICEFLOW_TRANSCRIPT_CLIENT || 'api');
+  } catch (error) {
+    console.error('Invalid Voiceflow transcript client:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+const client = loadClient();
+
+// Recording timestamps are SQLite's "YYYY-MM-DD HH:MM:SS" in UTC
+function parseSqliteTime(value: string) {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export async function getCallVoiceflow(callId: string): Promise<VoiceflowResult> {
+  const call = getCall(callId);
+  if (!call) {
+    return { ok: false, status: 404, error: 'Call not found', details: `No call with ID ${callId}` };
+  }
+  if (!call.voiceflow) {
+    return { ok: false, status: 404, error: 'No Voiceflow session', details: 'The call was not linked to a Voiceflow project' };
+  }
+
+  const cached = getVoiceflowTurns(callId);
+  if (cached && !cached.stale) {
+    return { ok: true, voiceflow: { link: call.voiceflow, turns: cached.turns } };
+  }
+
+  const turns = await client.fetchTurns(call.voiceflow);
+  if (!turns && cached) {
+    return { ok: true, voiceflow: { link: call.voiceflow, turns: cached.turns } };
+  }
+  if (!turns) {
+    return {
+      ok: false,
+      status: 404,
+      error: 'Voiceflow transcript not found',
+      details: `No transcript for session ${call.voiceflow.sessionId ?? call.voiceflow.userId ?? 'unknown'} in project ${call.voiceflow.projectId}`
+    };
+  }
+
+  // Transcript line times count from the start of the recording
+  const session = call.callSid ? getCallSession(call.callSid) : null;
+  const recordingStart = session?.recording_started_at ? parseSqliteTime(session.recording_started_at) : NaN;
+  const placed = turns.map(turn => {
+    const time = turn.time ? Date.parse(turn.time) : NaN;
+    return isNaN(time) || isNaN(recordingStart)
+      ? turn
+      : { ...turn, offset: Math.round((time - recordingStart) / 100) / 10 };
+  });
+
+  saveVoiceflowTurns(callId, client.name, placed);
+  console.log('🧭 Voiceflow turns fetched:', { callId, client: client.name, turns: placed.length });
+  return { ok: true, voiceflow: { link: call.voiceflow, turns: placed } };
+}
@@ -0,0 +1,147 @@
+import { decodeMulaw } from "./stt";
+
+// Minimal WAV (RIFF) reader and writer for the recordings Twilio gives us:
+// PCM or G.711 with one or two interleaved channels
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface WavAudio {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Bytes per frame, i.e. one sample for every channel
+  blockAlign: number;
+  data: Uint8Array;
+}
+
+function chunkId(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+export function parseWav(input: ArrayBuffer | Uint8Array): WavAudio {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length < 12 || chunkId(bytes, 0) !== 'RIFF' || chunkId(bytes, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let fmt: Omit<WavAudio, 'data'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = chunkId(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let format = view.getUint16(body, true);
+      // The real format code is the first two bytes of the sub-format GUID
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+      fmt = {
+        format,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!fmt) {
+        throw new Error('WAV data chunk comes before its format chunk');
+      }
+      // Streamed files may claim more data than they hold
+      const end = Math.min(body + size, bytes.length);
+      return { ...fmt, data: bytes.subarray(body, end) };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+export function encodeWav(audio: WavAudio): Uint8Array {
+  const output = new Uint8Array(44 + audio.data.length);
+  const view = new DataView(output.buffer);
+  const writeId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) output[offset + i] = id.charCodeAt(i);
+  };
+
+  writeId(0, 'RIFF');
+  view.setUint32(4, 36 + audio.data.length, true);
+  writeId(8, 'WAVE');
+  writeId(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, audio.format, true);
+  view.setUint16(22, audio.channels, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * audio.blockAlign, true);
+  view.setUint16(32, audio.blockAlign, true);
+  view.setUint16(34, audio.bitsPerSample, true);
+  writeId(36, 'data');
+  view.setUint32(40, audio.data.length, true);
+  output.set(audio.data, 44);
+
+  return output;
+}
+
+// One channel (0-based) of an interleaved recording, as a mono WAV
+export function extractWavChannel(audio: WavAudio, channel: number): Uint8Array {
+  if (channel >= audio.channels) {
+    throw new Error(`Recording has ${audio.channels} channel(s), no channel ${channel + 1}`);
+  }
+
+  const sampleBytes = audio.blockAlign / audio.channels;
+  const frames = Math.floor(audio.data.length / audio.blockAlign);
+  const data = new Uint8Array(frames * sampleBytes);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const from = frame * audio.blockAlign + channel * sampleBytes;
+    data.set(audio.data.subarray(from, from + sampleBytes), frame * sampleBytes);
+  }
+
+  return encodeWav({ ...audio, channels: 1, blockAlign: sampleBytes, data });
+}
+
+// A reader for one sample, scaled to -1..1
+function sampleReader(audio: WavAudio): (view: DataView, offset: number) => number {
+  if (audio.format === WAVE_FORMAT_MULAW && audio.bitsPerSample === 8) {
+    return (view, offset) => decodeMulaw(view.getUint8(offset)) / 32768;
+  }
+  if (audio.format === WAVE_FORMAT_PCM && audio.bitsPerSample === 16) {
+    return (view, offset) => view.getInt16(offset, true) / 32768;
+  }
+  if (audio.format === WAVE_FORMAT_PCM && audio.bitsPerSample === 8) {
+    return (view, offset) => (view.getUint8(offset) - 128) / 128;
+  }
+  throw new Error(`Unsupported WAV encoding (format ${audio.format}, ${audio.bitsPerSample} bits)`);
+}
+
+export function wavDuration(audio: WavAudio) {
+  return Math.floor(audio.data.length / audio.blockAlign) / audio.sampleRate;
+}
+
+// The loudest sample in each of `buckets` equal slices, per channel, from 0 to 1
+export function wavPeaks(audio: WavAudio, buckets: number): number[][] {
+  const read = sampleReader(audio);
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const sampleBytes = audio.blockAlign / audio.channels;
+  const frames = Math.floor(audio.data.length / audio.blockAlign);
+  const count = Math.min(buckets, frames);
+
+  return Array.from({ length: audio.channels }, (_, channel) => {
+    const peaks = new Array<number>(count).fill(0);
+    for (let frame = 0; frame < frames; frame++) {
+      const bucket = Math.floor(frame * count / frames);
+      const value = Math.abs(read(view, frame * audio.blockAlign + channel * sampleBytes));
+      if (value > peaks[bucket]) peaks[bucket] = value;
+    }
+    return peaks.map(peak => Math.round(Math.min(peak, 1) * 1000) / 1000);
+  });
+}
@@ -0,0 +1,107 @@
+import type { CallWaveform, RedactionRegion, TranscriptLine, TranscriptRedaction } from "./types";
+import { getCall, getTranscriptRedactions, getWaveformPeaks, saveWaveformPeaks } from "./db";
+import { getAudio } from "./audio";
+import { parseWav, wavDuration, wavPeaks } from "./wav";
+
+// Enough detail for a card-wide player without a large response
+const PEAK_BUCKETS = 800;
+
+// Twilio replaces each redacted entity with its type, e.g. "[PHONE_NUMBER]";
+// braces are accepted too
+const REDACTION_TOKEN = /[[{]([A-Z][A-Z_]+)[\]}]/g;
+
+export type WaveformResult =
+  | { ok: true; waveform: CallWaveform }
+  | { ok: false; status: number; error: string; details: string };
+
+type PeaksResult =
+  | { ok: true; peaks: { duration: number; peaks: number[][] } }
+  | { ok: false; status: number; error: string; details: string };
+
+// Only Twilio's tokens mark audio that was beeped out. Our own transcript
+// redaction adds tokens to the text alone; it records where each one went, so
+// those are skipped.
+function redactionRegions(transcript: TranscriptLine[], localRedactions: TranscriptRedaction[]): RedactionRegion[] {
+  return transcript.flatMap((line, i) => {
+    const sentenceIndex = line.sentenceIndex ?? i;
+    const local = new Set(
+      localRedactions.filter(redaction => redaction.sentenceIndex === sentenceIndex).map(redaction => redaction.position)
+    );
+    const labels = [...line.text.matchAll(REDACTION_TOKEN)]
+      .filter(match => !local.has(match.index))
+      .map(match => match[1]);
+    if (labels.length === 0 || line.startTime === undefined || line.endTime === undefined) {
+      return [];
+    }
+    return [{ speaker: line.speaker, start: line.startTime, end: line.endTime, labels }];
+  });
+}
+
+async function computePeaks(callId: string): Promise<PeaksResult> {
+  const audio = await getAudio(callId, 'redacted');
+  if (!audio.ok) {
+    return audio;
+  }
+
+  let peaks;
+  try {
+    const wav = parseWav(await Bun.file(audio.entry.path).arrayBuffer());
+    peaks = { duration: wavDuration(wav), peaks: wavPeaks(wav, PEAK_BUCKETS) };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 422,
+      error: 'Waveform unavailable',
+      details: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  saveWaveformPeaks(callId, peaks);
+  console.log('〰️ Waveform computed:', { callId, channels: peaks.peaks.length, duration: peaks.duration });
+  return { ok: true, peaks };
+}
+
+const computing = new Map<string, Promise<PeaksResult>>();
+
+function getPeaks(callId: string): Promise<PeaksResult> {
+  const stored = getWaveformPeaks(callId);
+  if (stored) {
+    return Promise.resolve({ ok: true, peaks: stored });
+  }
+
+  let pending = computing.get(callId);
+  if (!pending) {
+    pending = computePeaks(callId).finally(() => computing.delete(callId));
+    computing.set(callId, pending);
+  }
+  return pending;
+}
+
+// Runs when a call is saved; calls from before then are computed on first view
+export async function precomputeWaveform(callId: string) {
+  try {
+    const result = await getPeaks(callId);
+    if (!result.ok) {
+      console.warn('⚠️ Waveform not computed:', { callId, error: result.error, details: result.details });
+    }
+  } catch (error) {
+    console.error('Computing waveform failed:', { callId, error: error instanceof Error ? error.message : error });
+  }
+}
+
+export async function getCallWaveform(callId: string): Promise<WaveformResult> {
+  const call = getCall(callId);
+  if (!call) {
+    return { ok: false, status: 404, error: 'Call not found', details: `No call with ID ${callId}` };
+  }
+
+  const result = await getPeaks(callId);
+  if (!result.ok) {
+    return result;
+  }
+
+  return {
+    ok: true,
+    waveform: { ...result.peaks, redactions: redactionRegions(call.transcript, getTranscriptRedactions(callId)) }
+  };
+}
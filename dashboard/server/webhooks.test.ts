@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { computeTwilioSignature } from "./signature";
+import { startTestServer, type TestServer } from "./test-server";
+
+const AUTH_TOKEN = Bun.env.TWILIO_AUTH_TOKEN!;
+const PUBLIC_URL = Bun.env.PUBLIC_URL!;
+const WEBHOOK_PATH = '/v1/twilio/webhooks/project-1/answer';
+const TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Hello</Say></Response>';
+
+let runtime: Server;
+let runtimeRequests: { method: string; path: string; body: string }[] = [];
+
+// Stands in for the Voiceflow runtime the webhooks are forwarded to
+beforeAll(() => {
+  runtime = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname, search } = new URL(req.url);
+      runtimeRequests.push({ method: req.method, path: pathname + search, body: await req.text() });
+      return new Response(TWIML, { headers: { 'Content-Type': 'application/xml' } });
+    }
+  });
+});
+
+afterAll(() => {
+  runtime.stop(true);
+});
+
+function callParams(callSid: string) {
+  return {
+    CallSid: callSid,
+    From: '+14155550100',
+    To: '+14155550199',
+    CallStatus: 'in-progress',
+    Direction: 'inbound'
+  };
+}
+
+function signedPost(server: TestServer, path: string, params: Record<string, string>, token = AUTH_TOKEN) {
+  return fetch(server.url + path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': computeTwilioSignature(token, PUBLIC_URL + path, params)
+    },
+    body: new URLSearchParams(params).toString()
+  });
+}
+
+describe('Twilio webhooks with signature validation', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      VOICEFLOW_ROUTES: JSON.stringify({ default: { baseUrl: runtime.url.origin } })
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  test('forwards a signed POST webhook with its form body', async () => {
+    runtimeRequests = [];
+    const params = callParams('CA00000000000000000000000000000001');
+    const response = await signedPost(server, WEBHOOK_PATH, params);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<Say>Hello</Say>');
+    expect(runtimeRequests).toHaveLength(1);
+    expect(runtimeRequests[0]).toMatchObject({ method: 'POST', path: WEBHOOK_PATH });
+    expect(Object.fromEntries(new URLSearchParams(runtimeRequests[0].body))).toEqual(params);
+  });
+
+  test('forwards a signed GET webhook with its query string', async () => {
+    runtimeRequests = [];
+    const path = `${WEBHOOK_PATH}?${new URLSearchParams(callParams('CA00000000000000000000000000000002'))}`;
+    const response = await fetch(server.url + path, {
+      headers: { 'X-Twilio-Signature': computeTwilioSignature(AUTH_TOKEN, PUBLIC_URL + path) }
+    });
+
+    expect(response.status).toBe(200);
+    expect(runtimeRequests).toEqual([{ method: 'GET', path, body: '' }]);
+  });
+
+  test('rejects an unsigned webhook without forwarding it', async () => {
+    runtimeRequests = [];
+    const response = await fetch(server.url + WEBHOOK_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(callParams('CA00000000000000000000000000000003')).toString()
+    });
+
+    expect(response.status).toBe(403);
+    expect(runtimeRequests).toHaveLength(0);
+  });
+
+  test('rejects a webhook signed with another auth token', async () => {
+    runtimeRequests = [];
+    const response = await signedPost(server, WEBHOOK_PATH, callParams('CA00000000000000000000000000000004'), 'other-token');
+
+    expect(response.status).toBe(403);
+    expect(runtimeRequests).toHaveLength(0);
+  });
+
+  test('rejects a webhook whose body changed after signing', async () => {
+    const params = callParams('CA00000000000000000000000000000005');
+    const response = await fetch(server.url + WEBHOOK_PATH, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': computeTwilioSignature(AUTH_TOKEN, PUBLIC_URL + WEBHOOK_PATH, params)
+      },
+      body: new URLSearchParams({ ...params, From: '+14155550111' }).toString()
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  test('rejects an unsigned recording status callback', async () => {
+    const response = await fetch(`${server.url}/recording-status`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ CallSid: 'CA1', RecordingSid: 'RE1', RecordingStatus: 'completed' }).toString()
+    });
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('Twilio webhooks with TWILIO_VALIDATE_SIGNATURE=false', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      TWILIO_VALIDATE_SIGNATURE: 'false',
+      VOICEFLOW_ROUTES: JSON.stringify({ default: { baseUrl: runtime.url.origin } })
+    });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  test('accepts unsigned webhooks', async () => {
+    const response = await fetch(server.url + WEBHOOK_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(callParams('CA00000000000000000000000000000006')).toString()
+    });
+
+    expect(response.status).toBe(200);
+  });
+});